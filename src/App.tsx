@@ -1,13 +1,35 @@
 import React, { useState } from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import Login from './pages/Login';
+import Register from './pages/Register';
 import Users from './pages/Users';
+import UserDetail from './pages/UserDetail';
+import Forbidden from './pages/Forbidden';
+import AuditLog from './pages/AuditLog';
+import OrgChart from './pages/OrgChart';
 import Navbar from './components/Navbar';
+import AuthProvider from './components/AuthProvider';
+import OfflineBanner from './components/OfflineBanner';
+import { useAuth } from './hooks/useAuth';
+import type { Permission } from './utils/permissions';
 
-const PrivateRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const token = localStorage.getItem('token');
-  return token ? <>{children}</> : <Navigate to="/login" />;
+interface PrivateRouteProps {
+  children: React.ReactNode;
+  permission?: Permission;
+}
+
+const PrivateRoute: React.FC<PrivateRouteProps> = ({ children, permission }) => {
+  const { session, can } = useAuth();
+  const location = useLocation();
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+  if (permission && !can(permission)) {
+    return <Forbidden />;
+  }
+  return <>{children}</>;
 };
 
 function App() {
@@ -19,26 +41,63 @@ function App() {
 
   return (
     <Router>
-      <div className={darkMode ? 'dark' : ''}>
-        <div className={`min-h-screen ${darkMode ? 'bg-gray-900 text-white' : 'bg-gray-50 text-gray-900'}`}>
-          <Toaster position="top-right" />
-          <Routes>
-            <Route path="/login" element={<Login />} />
-            <Route
-              path="/users"
-              element={
-                <PrivateRoute>
-                  <>
-                    <Navbar darkMode={darkMode} toggleDarkMode={toggleDarkMode} />
-                    <Users darkMode={darkMode} />
-                  </>
-                </PrivateRoute>
-              }
-            />
-            <Route path="/" element={<Navigate to="/users" />} />
-          </Routes>
+      <AuthProvider>
+        <div className={darkMode ? 'dark' : ''}>
+          <div className={`min-h-screen ${darkMode ? 'bg-gray-900 text-white' : 'bg-gray-50 text-gray-900'}`}>
+            <Toaster position="top-right" />
+            <OfflineBanner darkMode={darkMode} />
+            <Routes>
+              <Route path="/login" element={<Login />} />
+              <Route path="/register" element={<Register />} />
+              <Route
+                path="/users"
+                element={
+                  <PrivateRoute>
+                    <>
+                      <Navbar darkMode={darkMode} toggleDarkMode={toggleDarkMode} />
+                      <Users darkMode={darkMode} />
+                    </>
+                  </PrivateRoute>
+                }
+              />
+              <Route
+                path="/users/:id"
+                element={
+                  <PrivateRoute>
+                    <>
+                      <Navbar darkMode={darkMode} toggleDarkMode={toggleDarkMode} />
+                      <UserDetail darkMode={darkMode} />
+                    </>
+                  </PrivateRoute>
+                }
+              />
+              <Route
+                path="/org"
+                element={
+                  <PrivateRoute>
+                    <>
+                      <Navbar darkMode={darkMode} toggleDarkMode={toggleDarkMode} />
+                      <OrgChart darkMode={darkMode} />
+                    </>
+                  </PrivateRoute>
+                }
+              />
+              <Route
+                path="/audit"
+                element={
+                  <PrivateRoute permission="audit:view">
+                    <>
+                      <Navbar darkMode={darkMode} toggleDarkMode={toggleDarkMode} />
+                      <AuditLog darkMode={darkMode} />
+                    </>
+                  </PrivateRoute>
+                }
+              />
+              <Route path="/" element={<Navigate to="/users" />} />
+            </Routes>
+          </div>
         </div>
-      </div>
+      </AuthProvider>
     </Router>
   );
 }
@@ -0,0 +1,106 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { AuthContext } from '../context/AuthContext';
+import { clearQueries } from '../utils/queryCache';
+import { hasPermission } from '../utils/permissions';
+import type { Permission } from '../utils/permissions';
+import {
+  SESSION_KEY,
+  endSession,
+  expireSession,
+  getSession,
+  isSessionExpired,
+  onSessionChange,
+  startSession,
+  touchSession,
+} from '../utils/session';
+import type { Session } from '../utils/session';
+
+const EXPIRY_CHECK_INTERVAL = 15 * 1000;
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+
+const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<Session | null>(() => {
+    const stored = getSession();
+    return stored && !isSessionExpired(stored) ? stored : null;
+  });
+  const [expired, setExpired] = useState(() => {
+    const stored = getSession();
+    return !!stored && isSessionExpired(stored);
+  });
+
+  useEffect(() => {
+    return onSessionChange((next, reason) => {
+      setSession(next);
+      setExpired(reason === 'expired');
+      if (!next) {
+        clearQueries();
+      }
+    });
+  }, []);
+
+  // Drop a session that timed out while the app was closed
+  useEffect(() => {
+    const stored = getSession();
+    if (stored && isSessionExpired(stored)) {
+      expireSession();
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!session) return;
+
+    const interval = setInterval(() => {
+      const current = getSession();
+      if (current && isSessionExpired(current)) {
+        expireSession();
+      }
+    }, EXPIRY_CHECK_INTERVAL);
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, touchSession, { passive: true }));
+
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, touchSession));
+    };
+  }, [session]);
+
+  // Keep tabs in sync when another tab signs in or out
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key !== SESSION_KEY) return;
+
+      const stored = getSession();
+      if (stored && isSessionExpired(stored)) {
+        expireSession();
+        return;
+      }
+      setSession(stored);
+      if (!stored) {
+        setExpired(false);
+        clearQueries();
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const signIn = useCallback((token: string, email: string) => {
+    startSession(token, email);
+  }, []);
+
+  const signOut = useCallback(() => {
+    endSession();
+  }, []);
+
+  const role = session?.role ?? null;
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+  const value = useMemo(
+    () => ({ session, expired, role, can, signIn, signOut }),
+    [session, expired, role, can, signIn, signOut]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
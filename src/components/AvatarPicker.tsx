@@ -0,0 +1,218 @@
+import React, { useRef, useState } from 'react';
+import { Camera, Trash2 } from 'lucide-react';
+import UserAvatar from './UserAvatar';
+import { readImageFile, renderAvatar } from '../utils/image';
+import type { User } from '../types';
+
+interface AvatarPickerProps {
+  darkMode: boolean;
+  user: Pick<User, 'first_name' | 'last_name'>;
+  value: string;
+  onChange: (avatar: string) => void;
+}
+
+// Side of the square crop area, in screen pixels
+const VIEWPORT = 240;
+const MAX_ZOOM = 3;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface CropState {
+  image: HTMLImageElement;
+  zoom: number;
+  // Image's top-left corner relative to the crop area
+  offset: Point;
+}
+
+// At zoom 1 the image's short side exactly fills the crop area
+const displayScale = (image: HTMLImageElement, zoom: number) =>
+  (VIEWPORT / Math.min(image.naturalWidth, image.naturalHeight)) * zoom;
+
+// Keeps the crop area covered by the image
+const clampOffset = (image: HTMLImageElement, scale: number, offset: Point): Point => ({
+  x: Math.min(0, Math.max(VIEWPORT - image.naturalWidth * scale, offset.x)),
+  y: Math.min(0, Math.max(VIEWPORT - image.naturalHeight * scale, offset.y)),
+});
+
+const AvatarPicker: React.FC<AvatarPickerProps> = ({ darkMode, user, value, onChange }) => {
+  const [crop, setCrop] = useState<CropState | null>(null);
+  const [error, setError] = useState('');
+  const [isDragOver, setIsDragOver] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const panRef = useRef<{ pointer: Point; offset: Point } | null>(null);
+
+  const openFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError('');
+    try {
+      const image = await readImageFile(file);
+      const scale = displayScale(image, 1);
+      // Start centred
+      const offset = {
+        x: (VIEWPORT - image.naturalWidth * scale) / 2,
+        y: (VIEWPORT - image.naturalHeight * scale) / 2,
+      };
+      setCrop({ image, zoom: 1, offset });
+    } catch (readError) {
+      setError(readError instanceof Error ? readError.message : 'Could not read the image');
+    }
+  };
+
+  const handleZoom = (zoom: number) => {
+    setCrop((prev) => {
+      if (!prev) return prev;
+      const { image } = prev;
+      const oldScale = displayScale(image, prev.zoom);
+      const newScale = displayScale(image, zoom);
+      // Zoom around the centre of the crop area
+      const centre = {
+        x: (VIEWPORT / 2 - prev.offset.x) / oldScale,
+        y: (VIEWPORT / 2 - prev.offset.y) / oldScale,
+      };
+      const offset = { x: VIEWPORT / 2 - centre.x * newScale, y: VIEWPORT / 2 - centre.y * newScale };
+      return { image, zoom, offset: clampOffset(image, newScale, offset) };
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!crop) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panRef.current = { pointer: { x: e.clientX, y: e.clientY }, offset: crop.offset };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const pan = panRef.current;
+    if (!pan) return;
+    setCrop((prev) => {
+      if (!prev) return prev;
+      const offset = {
+        x: pan.offset.x + e.clientX - pan.pointer.x,
+        y: pan.offset.y + e.clientY - pan.pointer.y,
+      };
+      return { ...prev, offset: clampOffset(prev.image, displayScale(prev.image, prev.zoom), offset) };
+    });
+  };
+
+  const handleApply = () => {
+    if (!crop) return;
+    const scale = displayScale(crop.image, crop.zoom);
+    try {
+      onChange(renderAvatar(crop.image, {
+        x: -crop.offset.x / scale,
+        y: -crop.offset.y / scale,
+        size: VIEWPORT / scale,
+      }));
+      setCrop(null);
+    } catch (renderError) {
+      setError(renderError instanceof Error ? renderError.message : 'Could not resize the image');
+    }
+  };
+
+  const buttonClass = `flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg ${
+    darkMode ? 'bg-gray-700 text-white hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+  }`;
+
+  if (crop) {
+    const scale = displayScale(crop.image, crop.zoom);
+    return (
+      <div className="flex flex-col items-center space-y-3">
+        <div
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => { panRef.current = null; }}
+          className="relative overflow-hidden rounded-lg cursor-move touch-none select-none"
+          style={{ width: VIEWPORT, height: VIEWPORT }}
+        >
+          <img
+            src={crop.image.src}
+            alt=""
+            draggable={false}
+            className="absolute max-w-none"
+            style={{
+              left: crop.offset.x,
+              top: crop.offset.y,
+              width: crop.image.naturalWidth * scale,
+              height: crop.image.naturalHeight * scale,
+            }}
+          />
+          {/* Darken what falls outside the round avatar */}
+          <div className="absolute inset-0 rounded-full pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]" />
+        </div>
+        <input
+          type="range"
+          min={1}
+          max={MAX_ZOOM}
+          step={0.01}
+          value={crop.zoom}
+          onChange={(e) => handleZoom(Number(e.target.value))}
+          aria-label="Zoom"
+          style={{ width: VIEWPORT }}
+        />
+        <div className="flex space-x-2">
+          <button type="button" onClick={() => setCrop(null)} className={buttonClass}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            className="px-3 py-1.5 text-sm rounded-lg bg-blue-500 text-white hover:bg-blue-600"
+          >
+            Use photo
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragOver(false);
+        openFile(e.dataTransfer.files[0]);
+      }}
+      className={`flex items-center space-x-4 p-3 rounded-lg border-2 border-dashed ${
+        isDragOver ? 'border-blue-500' : darkMode ? 'border-gray-600' : 'border-gray-300'
+      }`}
+    >
+      <UserAvatar user={{ ...user, avatar: value }} className="w-20 h-20" />
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+            <Camera size={14} />
+            <span>{value ? 'Change photo' : 'Upload photo'}</span>
+          </button>
+          {value && (
+            <button type="button" onClick={() => onChange('')} className={`${buttonClass} text-red-500`}>
+              <Trash2 size={14} />
+              <span>Remove</span>
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-gray-500">or drop an image here</p>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        onChange={(e) => {
+          openFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default AvatarPicker;
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Trash2, AtSign, X } from 'lucide-react';
+
+export interface BulkProgress {
+  label: string;
+  completed: number;
+  total: number;
+}
+
+export interface BulkFailure {
+  name: string;
+  message: string;
+}
+
+interface BulkActionBarProps {
+  darkMode: boolean;
+  selectedCount: number;
+  // The selection only covers the page on screen
+  scopedToPage?: boolean;
+  progress: BulkProgress | null;
+  failures: BulkFailure[];
+  onClear: () => void;
+  onDelete?: () => void;
+  onChangeDomain?: (domain: string) => void;
+  onDismissFailures: () => void;
+}
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  darkMode,
+  selectedCount,
+  scopedToPage = false,
+  progress,
+  failures,
+  onClear,
+  onDelete,
+  onChangeDomain,
+  onDismissFailures,
+}) => {
+  const [domain, setDomain] = useState('');
+  const [domainError, setDomainError] = useState('');
+
+  const handleChangeDomain = (e: React.FormEvent) => {
+    e.preventDefault();
+    const newDomain = domain.trim().replace(/^@/, '');
+    if (!/^[^\s@]+\.[^\s@]+$/.test(newDomain)) {
+      setDomainError('Enter a domain like example.com');
+      return;
+    }
+    setDomainError('');
+    onChangeDomain?.(newDomain);
+    setDomain('');
+  };
+
+  const isRunning = progress !== null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className={`fixed bottom-6 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-3xl p-4 rounded-xl shadow-2xl ${
+        darkMode ? 'bg-gray-800 text-white' : 'bg-white'
+      }`}
+    >
+      {isRunning ? (
+        <div>
+          <div className="flex justify-between text-sm mb-2">
+            <span>{progress.label}</span>
+            <span>
+              {progress.completed} / {progress.total}
+            </span>
+          </div>
+          <div className={`h-2 rounded-full ${darkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+            <div
+              className="h-2 rounded-full bg-blue-500 transition-all"
+              style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+            />
+          </div>
+        </div>
+      ) : failures.length > 0 ? (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-medium text-red-500">
+              {failures.length} {failures.length === 1 ? 'change' : 'changes'} failed
+            </span>
+            <button onClick={onDismissFailures} className="p-1 text-gray-400 hover:text-gray-600">
+              <X size={16} />
+            </button>
+          </div>
+          <ul className="max-h-32 overflow-y-auto text-sm space-y-1">
+            {failures.map((failure, index) => (
+              <li key={index}>
+                <span className="font-medium">{failure.name}</span>: {failure.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="font-medium">
+            {selectedCount} selected{scopedToPage && ' on this page'}
+          </span>
+          <button
+            onClick={onClear}
+            className={`text-sm ${darkMode ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-800'}`}
+          >
+            Clear
+          </button>
+          {onChangeDomain && (
+            <form onSubmit={handleChangeDomain} className="flex items-center gap-2 ml-auto">
+              <div>
+                <input
+                  type="text"
+                  value={domain}
+                  onChange={(e) => {
+                    setDomain(e.target.value);
+                    setDomainError('');
+                  }}
+                  placeholder="new-domain.com"
+                  className={`w-40 px-3 py-1.5 text-sm rounded-lg border ${
+                    domainError ? 'border-red-500' : darkMode ? 'border-gray-600' : 'border-gray-300'
+                  } ${darkMode ? 'bg-gray-700 text-white' : 'bg-white'}`}
+                />
+                {domainError && <p className="mt-1 text-xs text-red-500">{domainError}</p>}
+              </div>
+              <button
+                type="submit"
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg bg-blue-500 text-white hover:bg-blue-600"
+              >
+                <AtSign size={14} />
+                <span>Change domain</span>
+              </button>
+            </form>
+          )}
+          {onDelete && (
+            <button
+              onClick={onDelete}
+              className="flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg bg-red-500 text-white hover:bg-red-600"
+            >
+              <Trash2 size={14} />
+              <span>Delete</span>
+            </button>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default BulkActionBar;
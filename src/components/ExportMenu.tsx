@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Download, ChevronDown } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { EXPORT_FIELDS, exportUsers } from '../utils/export';
+import type { ExportFormat } from '../utils/export';
+import type { User } from '../types';
+
+type ExportScope = 'filtered' | 'all';
+
+interface ExportMenuProps {
+  darkMode: boolean;
+  filteredUsers: User[];
+  loadAllUsers: () => Promise<User[]>;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ darkMode, filteredUsers, loadAllUsers }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [scope, setScope] = useState<ExportScope>('filtered');
+  const [fields, setFields] = useState<Set<keyof User>>(
+    new Set(['id', 'first_name', 'last_name', 'email'])
+  );
+  const [isExporting, setIsExporting] = useState(false);
+
+  const toggleField = (field: keyof User) => {
+    const newFields = new Set(fields);
+    if (newFields.has(field)) {
+      newFields.delete(field);
+    } else {
+      newFields.add(field);
+    }
+    setFields(newFields);
+  };
+
+  const handleExport = async () => {
+    // Keep the column order stable regardless of the order fields were ticked in
+    const selectedFields = EXPORT_FIELDS.map(({ key }) => key).filter(key => fields.has(key));
+    setIsExporting(true);
+    try {
+      const users = scope === 'all' ? await loadAllUsers() : filteredUsers;
+      exportUsers(users, selectedFields, format);
+      toast.success(`Exported ${users.length} users`);
+      setIsOpen(false);
+    } catch {
+      toast.error('Failed to export users');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const optionClass = (active: boolean) =>
+    `px-3 py-1 rounded-lg text-sm ${
+      active
+        ? 'bg-blue-500 text-white'
+        : darkMode
+        ? 'bg-gray-600 text-white'
+        : 'bg-gray-100'
+    }`;
+
+  return (
+    <div className="relative">
+      <motion.button
+        whileHover={{ scale: 1.02 }}
+        whileTap={{ scale: 0.98 }}
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center space-x-2 px-4 py-2 rounded-lg ${
+          darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'
+        }`}
+      >
+        <Download size={16} />
+        <span>Export</span>
+        <ChevronDown
+          className={`transform transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          size={16}
+        />
+      </motion.button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className={`absolute right-0 mt-2 w-72 p-4 rounded-lg shadow-lg z-20 ${
+              darkMode ? 'bg-gray-700' : 'bg-white'
+            }`}
+          >
+            <div className="mb-4">
+              <h3 className="text-sm font-medium mb-2">Format</h3>
+              <div className="flex space-x-2">
+                <button onClick={() => setFormat('csv')} className={optionClass(format === 'csv')}>
+                  CSV
+                </button>
+                <button onClick={() => setFormat('json')} className={optionClass(format === 'json')}>
+                  JSON
+                </button>
+              </div>
+            </div>
+
+            <div className="mb-4">
+              <h3 className="text-sm font-medium mb-2">Users</h3>
+              <div className="flex space-x-2">
+                <button onClick={() => setScope('filtered')} className={optionClass(scope === 'filtered')}>
+                  Filtered ({filteredUsers.length})
+                </button>
+                <button onClick={() => setScope('all')} className={optionClass(scope === 'all')}>
+                  Entire directory
+                </button>
+              </div>
+            </div>
+
+            <div className="mb-4">
+              <h3 className="text-sm font-medium mb-2">Fields</h3>
+              <div className="grid grid-cols-2 gap-1">
+                {EXPORT_FIELDS.map(({ key, label }) => (
+                  <label key={key} className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={fields.has(key)}
+                      onChange={() => toggleField(key)}
+                      className="rounded text-blue-500"
+                    />
+                    <span>{label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <button
+              onClick={handleExport}
+              disabled={fields.size === 0 || isExporting}
+              className="w-full px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isExporting ? 'Exporting...' : 'Download'}
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,42 @@
+import React from 'react';
+import type { TextRange } from '../utils/userSearch';
+
+interface HighlightProps {
+  text: string;
+  ranges?: TextRange[];
+}
+
+// Sorted, with overlapping and touching ranges joined
+const mergeRanges = (ranges: TextRange[]) =>
+  [...ranges]
+    .sort((a, b) => a[0] - b[0])
+    .reduce<TextRange[]>((merged, [start, end]) => {
+      const last = merged[merged.length - 1];
+      if (last && start <= last[1]) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        merged.push([start, end]);
+      }
+      return merged;
+    }, []);
+
+const Highlight: React.FC<HighlightProps> = ({ text, ranges }) => {
+  if (!ranges || ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  mergeRanges(ranges).forEach(([start, end]) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={start} className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-500/40">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(text.slice(position));
+
+  return <>{parts}</>;
+};
+
+export default Highlight;
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Upload, CheckCircle, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { buildImportPlan, summarizeImport } from '../utils/import';
+import type { ImportRow } from '../utils/import';
+import { runWithConcurrency } from '../utils/concurrency';
+import type { User } from '../types';
+
+const IMPORT_CONCURRENCY = 3;
+
+interface RowResult {
+  ok: boolean;
+  message: string;
+}
+
+interface ImportModalProps {
+  darkMode: boolean;
+  loadDirectory: () => Promise<User[]>;
+  importRow: (row: ImportRow) => Promise<void>;
+  onClose: () => void;
+}
+
+const actionStyles: Record<ImportRow['action'], string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  skip: 'bg-gray-200 text-gray-700',
+};
+
+const ImportModal: React.FC<ImportModalProps> = ({ darkMode, loadDirectory, importRow, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [parseError, setParseError] = useState('');
+  const [isParsing, setIsParsing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [results, setResults] = useState<Map<number, RowResult>>(new Map());
+
+  const summary = summarizeImport(rows);
+  const pendingRows = rows.filter(row => row.action !== 'skip');
+  const isDone = results.size > 0 && !isImporting;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setParseError('');
+    setResults(new Map());
+    setIsParsing(true);
+    try {
+      const [text, directory] = await Promise.all([file.text(), loadDirectory()]);
+      setRows(buildImportPlan(text, directory));
+    } catch (error) {
+      setRows([]);
+      setParseError(error instanceof Error ? error.message : 'Could not read the file');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    const outcomes = await runWithConcurrency(pendingRows, IMPORT_CONCURRENCY, async (row) => {
+      await importRow(row);
+      setResults(prev =>
+        new Map(prev).set(row.line, { ok: true, message: row.action === 'create' ? 'Created' : 'Updated' })
+      );
+    });
+
+    const failed = outcomes.filter(outcome => outcome.error !== undefined);
+    setResults(prev => {
+      const next = new Map(prev);
+      failed.forEach(({ item, error }) =>
+        next.set(item.line, { ok: false, message: error instanceof Error ? error.message : 'Request failed' })
+      );
+      return next;
+    });
+    setIsImporting(false);
+
+    if (failed.length === 0) {
+      toast.success(`Imported ${outcomes.length} rows`);
+    } else {
+      toast.error(`${failed.length} of ${outcomes.length} rows failed to import`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.9 }}
+        className={`w-full max-w-4xl max-h-[90vh] flex flex-col p-6 rounded-xl shadow-xl ${
+          darkMode ? 'bg-gray-800 text-white' : 'bg-white'
+        }`}
+      >
+        <h2 className="text-2xl font-bold mb-4">Import Users</h2>
+
+        <label
+          className={`flex items-center justify-center space-x-2 p-4 mb-4 border-2 border-dashed rounded-lg cursor-pointer ${
+            darkMode ? 'border-gray-600 hover:border-gray-400' : 'border-gray-300 hover:border-gray-500'
+          }`}
+        >
+          <Upload size={18} />
+          <span>{fileName || 'Choose a CSV file with email, first_name and last_name columns'}</span>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFile}
+            disabled={isImporting}
+            className="hidden"
+          />
+        </label>
+
+        {parseError && <p className="mb-4 text-sm text-red-500">{parseError}</p>}
+        {isParsing && <p className="mb-4 text-sm text-gray-500">Reading file...</p>}
+
+        {rows.length > 0 && (
+          <>
+            <p className="mb-2 text-sm">
+              <span className="font-medium">{summary.create}</span> to create,{' '}
+              <span className="font-medium">{summary.update}</span> to update,{' '}
+              <span className="font-medium">{summary.skip}</span> skipped
+            </p>
+            <div className="flex-1 overflow-auto mb-4 border rounded-lg dark:border-gray-700">
+              <table className="w-full text-sm">
+                <thead className={darkMode ? 'bg-gray-700' : 'bg-gray-50'}>
+                  <tr className="text-left">
+                    <th className="px-3 py-2">Row</th>
+                    <th className="px-3 py-2">Action</th>
+                    <th className="px-3 py-2">Name</th>
+                    <th className="px-3 py-2">Email</th>
+                    <th className="px-3 py-2">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => {
+                    const result = results.get(row.line);
+                    return (
+                      <tr key={row.line} className="border-t dark:border-gray-700 align-top">
+                        <td className="px-3 py-2">{row.line}</td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${actionStyles[row.action]}`}>
+                            {row.action}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2">
+                          {row.values.first_name} {row.values.last_name}
+                        </td>
+                        <td className="px-3 py-2">{row.values.email}</td>
+                        <td className="px-3 py-2">
+                          {result ? (
+                            <span className={`flex items-center space-x-1 ${result.ok ? 'text-green-600' : 'text-red-500'}`}>
+                              {result.ok ? <CheckCircle size={14} /> : <XCircle size={14} />}
+                              <span>{result.message}</span>
+                            </span>
+                          ) : row.errors.length > 0 ? (
+                            <ul className="text-red-500">
+                              {row.errors.map(error => <li key={error}>{error}</li>)}
+                            </ul>
+                          ) : row.match ? (
+                            <span className="text-gray-500">
+                              {row.note ?? `Matches #${row.match.id}`}
+                            </span>
+                          ) : null}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isImporting}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 disabled:opacity-50"
+          >
+            {isDone ? 'Close' : 'Cancel'}
+          </button>
+          {!isDone && (
+            <button
+              onClick={handleImport}
+              disabled={pendingRows.length === 0 || isImporting}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isImporting
+                ? `Importing ${results.size} / ${pendingRows.length}...`
+                : `Import ${pendingRows.length} rows`}
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ImportModal;
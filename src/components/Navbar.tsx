@@ -1,7 +1,8 @@
 import React from 'react';
-import { useNavigate } from 'react-router-dom';
+import { NavLink } from 'react-router-dom';
 import { Sun, Moon, LogOut } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { useAuth } from '../hooks/useAuth';
 
 interface NavbarProps {
   darkMode: boolean;
@@ -9,11 +10,19 @@ interface NavbarProps {
 }
 
 const Navbar: React.FC<NavbarProps> = ({ darkMode, toggleDarkMode }) => {
-  const navigate = useNavigate();
+  const { session, signOut, can } = useAuth();
+
+  const navLinkClass = ({ isActive }: { isActive: boolean }) =>
+    `text-sm font-medium ${
+      isActive
+        ? 'text-blue-500'
+        : darkMode
+        ? 'text-gray-300 hover:text-white'
+        : 'text-gray-600 hover:text-gray-900'
+    }`;
 
   const handleLogout = () => {
-    localStorage.removeItem('token');
-    navigate('/login');
+    signOut();
   };
 
   return (
@@ -26,15 +35,38 @@ const Navbar: React.FC<NavbarProps> = ({ darkMode, toggleDarkMode }) => {
     >
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between h-16">
-          <motion.div
-            whileHover={{ scale: 1.05 }}
-            className={`text-xl font-bold ${
-              darkMode ? 'text-white' : 'text-gray-900'
-            }`}
-          >
-            User Management
-          </motion.div>
+          <div className="flex items-center space-x-8">
+            <motion.div
+              whileHover={{ scale: 1.05 }}
+              className={`text-xl font-bold ${
+                darkMode ? 'text-white' : 'text-gray-900'
+              }`}
+            >
+              User Management
+            </motion.div>
+            <div className="flex items-center space-x-4">
+              <NavLink to="/users" className={navLinkClass}>
+                Users
+              </NavLink>
+              <NavLink to="/org" className={navLinkClass}>
+                Org Chart
+              </NavLink>
+              {can('audit:view') && (
+                <NavLink to="/audit" className={navLinkClass}>
+                  Audit Log
+                </NavLink>
+              )}
+            </div>
+          </div>
           <div className="flex items-center space-x-4">
+            {session && (
+              <span className={`hidden sm:inline text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {session.email}
+                <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 capitalize">
+                  {session.role}
+                </span>
+              </span>
+            )}
             <motion.button
               whileHover={{ scale: 1.1 }}
               whileTap={{ scale: 0.95 }}
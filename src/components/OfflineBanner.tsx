@@ -0,0 +1,113 @@
+import React, { useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { WifiOff, AlertTriangle, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../hooks/useAuth';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useOfflineQueue } from '../hooks/useOfflineQueue';
+import { discardMutation, replayQueue, retryConflicts } from '../utils/offlineQueue';
+import type { QueuedMutation } from '../utils/offlineQueue';
+
+interface OfflineBannerProps {
+  darkMode: boolean;
+}
+
+const describe = (mutation: QueuedMutation) => {
+  const name = `${mutation.before.first_name} ${mutation.before.last_name}`;
+  return mutation.action === 'delete' ? `Delete ${name}` : `Update ${name}`;
+};
+
+const OfflineBanner: React.FC<OfflineBannerProps> = ({ darkMode }) => {
+  const { session } = useAuth();
+  const isOnline = useOnlineStatus();
+  const { pending, conflicts, isReplaying } = useOfflineQueue();
+  const unsynced = pending.length - conflicts.length;
+  const hasUnsynced = unsynced > 0;
+  const email = session?.email;
+
+  // Sync whenever we're online with changes waiting, including right after sign-in,
+  // and again on coming back to the tab; retries in between run on the queue's timer
+  useEffect(() => {
+    if (!email || !isOnline || !hasUnsynced) return;
+    const sync = () => {
+      replayQueue();
+    };
+    sync();
+    window.addEventListener('focus', sync);
+    return () => window.removeEventListener('focus', sync);
+  }, [email, isOnline, hasUnsynced]);
+
+  const wasReplaying = useRef(false);
+  useEffect(() => {
+    if (wasReplaying.current && !isReplaying && pending.length === 0) {
+      toast.success('Offline changes synced');
+    }
+    wasReplaying.current = isReplaying;
+  }, [isReplaying, pending.length]);
+
+  const isVisible = !!session && (!isOnline || pending.length > 0);
+
+  return (
+    <AnimatePresence>
+      {isVisible && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -10 }}
+          className={`fixed top-16 left-0 right-0 z-40 px-4 py-2 text-sm shadow ${
+            conflicts.length > 0
+              ? 'bg-red-100 text-red-900'
+              : darkMode
+              ? 'bg-yellow-900 text-yellow-100'
+              : 'bg-yellow-100 text-yellow-900'
+          }`}
+        >
+          <div className="max-w-7xl mx-auto">
+            {(!isOnline || hasUnsynced) && (
+              <div className="flex items-center space-x-2">
+                {!isOnline ? (
+                  <WifiOff size={16} />
+                ) : (
+                  <RefreshCw size={16} className={isReplaying ? 'animate-spin' : ''} />
+                )}
+                <span>
+                  {!isOnline ? "You're offline" : isReplaying ? 'Syncing' : 'Waiting to sync'}
+                  {hasUnsynced && ` · ${unsynced} pending ${unsynced === 1 ? 'change' : 'changes'}`}
+                </span>
+              </div>
+            )}
+            {conflicts.length > 0 && (
+              <div className="mt-2">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center space-x-2 font-medium">
+                    <AlertTriangle size={16} />
+                    <span>
+                      {conflicts.length} {conflicts.length === 1 ? 'change' : 'changes'} could not be synced
+                    </span>
+                  </span>
+                  <button onClick={() => retryConflicts()} disabled={!isOnline} className="font-medium hover:underline disabled:opacity-50">
+                    Retry all
+                  </button>
+                </div>
+                <ul className="mt-1 space-y-1">
+                  {conflicts.map(mutation => (
+                    <li key={mutation.id} className="flex items-center justify-between">
+                      <span>
+                        <span className="font-medium">{describe(mutation)}</span>: {mutation.conflict}
+                      </span>
+                      <button onClick={() => discardMutation(mutation.id)} className="hover:underline">
+                        Discard
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default OfflineBanner;
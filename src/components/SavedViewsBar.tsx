@@ -0,0 +1,155 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Bookmark, Check, Download, Pencil, Plus, Upload, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { downloadFile } from '../utils/export';
+import { isSameView, parseSavedViews } from '../utils/savedViews';
+import type { SavedView, ViewFilters } from '../utils/savedViews';
+
+interface SavedViewsBarProps {
+  darkMode: boolean;
+  views: SavedView[];
+  currentFilters: ViewFilters;
+  onApply: (view: SavedView) => void;
+  onSave: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (views: SavedView[]) => void;
+}
+
+const SavedViewsBar: React.FC<SavedViewsBarProps> = ({
+  darkMode,
+  views,
+  currentFilters,
+  onApply,
+  onSave,
+  onRename,
+  onDelete,
+  onImport,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const startEditing = (id: string, initialName: string) => {
+    setEditingId(id);
+    setName(initialName);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    if (editingId === 'new') {
+      onSave(trimmed);
+      toast.success(`Saved view "${trimmed}"`);
+    } else if (editingId) {
+      onRename(editingId, trimmed);
+    }
+    setEditingId(null);
+  };
+
+  const handleExport = () => {
+    downloadFile('saved-views.json', JSON.stringify(views, null, 2), 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseSavedViews(await file.text());
+      onImport(imported);
+      toast.success(`Imported ${imported.length} saved views`);
+    } catch {
+      toast.error('That file does not contain saved views');
+    }
+  };
+
+  const chipClass = (active: boolean) =>
+    `flex items-center space-x-1 px-3 py-1 rounded-full text-sm ${
+      active
+        ? 'bg-blue-500 text-white'
+        : darkMode
+        ? 'bg-gray-700 text-white'
+        : 'bg-white shadow'
+    }`;
+
+  const nameInput = (
+    <form onSubmit={handleSubmit} className="flex items-center space-x-1">
+      <input
+        autoFocus
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+        placeholder="View name"
+        className={`w-40 px-3 py-1 text-sm rounded-full border ${
+          darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+        }`}
+      />
+      <button type="submit" className="p-1 text-blue-500">
+        <Check size={16} />
+      </button>
+      <button type="button" onClick={() => setEditingId(null)} className="p-1 text-gray-400">
+        <X size={16} />
+      </button>
+    </form>
+  );
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-2">
+      <Bookmark size={16} className="text-gray-400" />
+      {views.map((view) =>
+        editingId === view.id ? (
+          <div key={view.id}>{nameInput}</div>
+        ) : (
+          <motion.div
+            key={view.id}
+            whileHover={{ scale: 1.05 }}
+            className={chipClass(isSameView(view, currentFilters))}
+          >
+            <button onClick={() => onApply(view)}>{view.name}</button>
+            <button
+              onClick={() => startEditing(view.id, view.name)}
+              aria-label={`Rename ${view.name}`}
+              className="opacity-60 hover:opacity-100"
+            >
+              <Pencil size={12} />
+            </button>
+            <button
+              onClick={() => onDelete(view.id)}
+              aria-label={`Delete ${view.name}`}
+              className="opacity-60 hover:opacity-100"
+            >
+              <X size={12} />
+            </button>
+          </motion.div>
+        )
+      )}
+      {editingId === 'new' ? (
+        nameInput
+      ) : (
+        <button
+          onClick={() => startEditing('new', '')}
+          className="flex items-center space-x-1 px-3 py-1 rounded-full text-sm text-blue-500 hover:underline"
+        >
+          <Plus size={14} />
+          <span>Save current view</span>
+        </button>
+      )}
+      <div className="ml-auto flex items-center space-x-2 text-gray-400">
+        <button onClick={handleExport} disabled={views.length === 0} aria-label="Export saved views" className="p-1 hover:text-blue-500 disabled:opacity-50">
+          <Download size={16} />
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} aria-label="Import saved views" className="p-1 hover:text-blue-500">
+          <Upload size={16} />
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+      </div>
+    </div>
+  );
+};
+
+export default SavedViewsBar;
@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import type { User } from '../types';
+
+interface UserAvatarProps {
+  user: Pick<User, 'avatar' | 'first_name' | 'last_name'>;
+  className?: string;
+}
+
+const UserAvatar: React.FC<UserAvatarProps> = ({ user, className = 'w-16 h-16' }) => {
+  // Remembers which URL failed, so picking a new photo gets another try
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
+  const fullName = `${user.first_name} ${user.last_name}`;
+
+  if (!user.avatar || user.avatar === failedSrc) {
+    const initials = `${user.first_name.charAt(0)}${user.last_name.charAt(0)}`.toUpperCase();
+    return (
+      <div
+        aria-label={fullName}
+        className={`${className} flex-shrink-0 rounded-full flex items-center justify-center bg-gradient-to-br from-blue-500 to-purple-600 text-white font-semibold`}
+      >
+        {initials}
+      </div>
+    );
+  }
+
+  return (
+    <img
+      src={user.avatar}
+      alt={fullName}
+      onError={() => setFailedSrc(user.avatar)}
+      className={`${className} flex-shrink-0 rounded-full object-cover`}
+    />
+  );
+};
+
+export default UserAvatar;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Edit2, Trash2 } from 'lucide-react';
+import UserSummary from './UserSummary';
+import { statusLabel } from '../utils/userProfile';
+import type { SearchHighlights } from '../utils/userSearch';
+import type { User } from '../types';
+
+interface UserCardProps {
+  darkMode: boolean;
+  user: User;
+  selected: boolean;
+  highlights?: SearchHighlights;
+  onToggleSelect?: (id: number, extend: boolean) => void;
+  onEdit?: (user: User) => void;
+  onDelete?: (user: User) => void;
+}
+
+const UserCard: React.FC<UserCardProps> = ({ darkMode, user, selected, highlights, onToggleSelect, onEdit, onDelete }) => (
+  <motion.div
+    layout
+    initial={{ opacity: 0, y: 20 }}
+    animate={{ opacity: 1, y: 0 }}
+    exit={{ opacity: 0, y: -20 }}
+    className={`p-6 rounded-xl shadow-lg ${
+      darkMode
+        ? 'bg-gray-800 text-white'
+        : 'bg-white'
+    } ${selected ? 'ring-2 ring-blue-500' : ''}`}
+  >
+    <div className="flex items-center space-x-4">
+      {onToggleSelect && (
+        <input
+          type="checkbox"
+          checked={selected}
+          readOnly
+          onClick={(e) => onToggleSelect(user.id, e.shiftKey)}
+          aria-label={`Select ${user.first_name} ${user.last_name}`}
+          className="w-4 h-4 rounded text-blue-500 focus:ring-blue-500"
+        />
+      )}
+      <UserSummary user={user} highlights={highlights} />
+      {user.status && user.status !== 'active' && (
+        <span
+          className={`self-start px-2 py-0.5 rounded-full text-xs font-medium ${
+            user.status === 'on-leave' ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'
+          }`}
+        >
+          {statusLabel(user.status)}
+        </span>
+      )}
+    </div>
+    <div className="mt-4 flex justify-end space-x-2">
+      {onEdit && (
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={() => onEdit(user)}
+          className="p-2 text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900 rounded-lg transition-colors"
+        >
+          <Edit2 size={18} />
+        </motion.button>
+      )}
+      {onDelete && (
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={() => onDelete(user)}
+          className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900 rounded-lg transition-colors"
+        >
+          <Trash2 size={18} />
+        </motion.button>
+      )}
+    </div>
+  </motion.div>
+);
+
+export default UserCard;
@@ -0,0 +1,205 @@
+import React, { useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { AlertCircle } from 'lucide-react';
+import AvatarPicker from './AvatarPicker';
+import { email, pattern, required } from '../utils/formSchema';
+import type { FormSchema } from '../utils/formSchema';
+import { EMPLOYMENT_STATUSES } from '../utils/userProfile';
+import { useForm } from '../hooks/useForm';
+import type { RejectedSubmit } from '../hooks/useForm';
+import type { EmploymentStatus, User, UserFormValues } from '../types';
+
+interface UserFormModalProps {
+  darkMode: boolean;
+  title: string;
+  submitLabel: string;
+  initialValues: UserFormValues;
+  // A save that failed after the modal closed: its values and error are shown again
+  rejectedSubmit?: RejectedSubmit<UserFormValues>;
+  // Candidates for the manager picker
+  people?: User[];
+  userId?: number;
+  onSubmit: (values: UserFormValues) => Promise<void>;
+  onClose: () => void;
+}
+
+type ProfileTextField = 'department' | 'job_title' | 'phone' | 'location' | 'start_date';
+
+type TextField = 'first_name' | 'last_name' | 'email' | ProfileTextField;
+
+const userFormSchema: FormSchema<UserFormValues> = {
+  first_name: [required('First name is required')],
+  last_name: [required('Last name is required')],
+  email: [email()],
+  phone: [pattern(/^\+?[\d\s().-]{7,}$/, 'Please enter a valid phone number')],
+};
+
+const UserFormModal: React.FC<UserFormModalProps> = ({
+  darkMode,
+  title,
+  submitLabel,
+  initialValues,
+  rejectedSubmit,
+  people = [],
+  userId,
+  onSubmit,
+  onClose,
+}) => {
+  const { values, errors, formError, isDirty, isSubmitting, setValue, handleSubmit } = useForm({
+    initialValues,
+    rejectedSubmit,
+    schema: userFormSchema,
+    onSubmit,
+  });
+
+  // Closing the tab would lose the edits as well
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  const handleClose = () => {
+    if (isDirty && !window.confirm('Discard your unsaved changes?')) return;
+    onClose();
+  };
+
+  const fields: { name: TextField; label: string; type: string }[] = [
+    { name: 'first_name', label: 'First Name', type: 'text' },
+    { name: 'last_name', label: 'Last Name', type: 'text' },
+    { name: 'email', label: 'Email', type: 'email' },
+  ];
+
+  const profileFields: { name: TextField; label: string; type: string }[] = [
+    { name: 'job_title', label: 'Job Title', type: 'text' },
+    { name: 'department', label: 'Department', type: 'text' },
+    { name: 'phone', label: 'Phone', type: 'tel' },
+    { name: 'location', label: 'Location', type: 'text' },
+    { name: 'start_date', label: 'Start Date', type: 'date' },
+  ];
+
+  // Someone can't report to themselves
+  const managers = people
+    .filter(person => person.id !== userId)
+    .sort((a, b) => `${a.first_name} ${a.last_name}`.localeCompare(`${b.first_name} ${b.last_name}`));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.9 }}
+        className={`w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 rounded-xl shadow-xl ${
+          darkMode ? 'bg-gray-800' : 'bg-white'
+        }`}
+      >
+        <h2 className="text-2xl font-bold mb-4">{title}</h2>
+        {formError && (
+          <div className="flex items-center space-x-2 mb-4 p-3 rounded-lg bg-red-50 text-red-700 text-sm">
+            <AlertCircle size={16} className="flex-shrink-0" />
+            <span>{formError}</span>
+          </div>
+        )}
+        <form onSubmit={handleSubmit} noValidate className="space-y-4">
+          <AvatarPicker
+            darkMode={darkMode}
+            user={values}
+            value={values.avatar ?? ''}
+            onChange={(avatar) => setValue('avatar', avatar)}
+          />
+          {fields.map(({ name, label, type }) => (
+            <div key={name}>
+              <label className="block text-sm font-medium mb-1">{label}</label>
+              <input
+                type={type}
+                value={values[name] ?? ''}
+                onChange={(e) => setValue(name, e.target.value)}
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 ${
+                  errors[name] ? 'border-red-500' : ''
+                }`}
+              />
+              {errors[name] && (
+                <p className="mt-1 text-sm text-red-500">{errors[name]}</p>
+              )}
+            </div>
+          ))}
+
+          {/* Employee Profile */}
+          <fieldset className="grid grid-cols-1 sm:grid-cols-2 gap-4 pt-4 border-t">
+            <legend className="px-1 text-sm font-medium text-gray-500">Employee profile (optional)</legend>
+            {profileFields.map(({ name, label, type }) => (
+              <div key={name}>
+                <label className="block text-sm font-medium mb-1">{label}</label>
+                <input
+                  type={type}
+                  value={values[name] ?? ''}
+                  onChange={(e) => setValue(name, e.target.value)}
+                  className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 ${
+                    errors[name] ? 'border-red-500' : ''
+                  }`}
+                />
+                {errors[name] && (
+                  <p className="mt-1 text-sm text-red-500">{errors[name]}</p>
+                )}
+              </div>
+            ))}
+            <div>
+              <label className="block text-sm font-medium mb-1">Manager</label>
+              <select
+                value={values.manager_id ?? ''}
+                onChange={(e) => setValue('manager_id', e.target.value ? Number(e.target.value) : undefined)}
+                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">No manager</option>
+                {/* Keep a manager who isn't in the loaded list selectable */}
+                {values.manager_id !== undefined && !managers.some(person => person.id === values.manager_id) && (
+                  <option value={values.manager_id}>User #{values.manager_id}</option>
+                )}
+                {managers.map(person => (
+                  <option key={person.id} value={person.id}>
+                    {person.first_name} {person.last_name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Status</label>
+              <select
+                value={values.status ?? ''}
+                onChange={(e) => setValue('status', (e.target.value || undefined) as EmploymentStatus | undefined)}
+                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Not set</option>
+                {EMPLOYMENT_STATUSES.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </fieldset>
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={handleClose}
+              disabled={isSubmitting}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className={`px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 ${
+                isSubmitting ? 'opacity-70 cursor-not-allowed' : ''
+              }`}
+            >
+              {isSubmitting ? 'Saving...' : submitLabel}
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </div>
+  );
+};
+
+export default UserFormModal;
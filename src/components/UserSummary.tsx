@@ -0,0 +1,40 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import UserAvatar from './UserAvatar';
+import Highlight from './Highlight';
+import type { SearchHighlights } from '../utils/userSearch';
+import type { User } from '../types';
+
+interface UserSummaryProps {
+  user: User;
+  avatarClassName?: string;
+  // Search matches to mark in the text
+  highlights?: SearchHighlights;
+}
+
+// Avatar, linked name, email and role line, as shown on cards and in the org chart
+const UserSummary: React.FC<UserSummaryProps> = ({ user, avatarClassName, highlights = {} }) => (
+  <>
+    <UserAvatar user={user} className={avatarClassName} />
+    <div className="flex-1 min-w-0">
+      <h3 className="text-lg font-semibold">
+        <Link to={`/users/${user.id}`} className="hover:text-blue-500">
+          <Highlight text={user.first_name} ranges={highlights.first_name} />{' '}
+          <Highlight text={user.last_name} ranges={highlights.last_name} />
+        </Link>
+      </h3>
+      <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+        <Highlight text={user.email} ranges={highlights.email} />
+      </p>
+      {(user.job_title || user.department) && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+          {user.job_title && <Highlight text={user.job_title} ranges={highlights.job_title} />}
+          {user.job_title && user.department && ' · '}
+          {user.department && <Highlight text={user.department} ranges={highlights.department} />}
+        </p>
+      )}
+    </div>
+  </>
+);
+
+export default UserSummary;
@@ -0,0 +1,239 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowDown, ArrowUp, Columns, Edit2, GripVertical, Trash2 } from 'lucide-react';
+import { getColumn } from '../utils/userTable';
+import type { ColumnId, TablePrefs } from '../utils/userTable';
+import type { User } from '../types';
+
+interface UserTableProps {
+  darkMode: boolean;
+  users: User[];
+  prefs: TablePrefs;
+  selectedIds: Set<number>;
+  onToggleSelect?: (id: number, extend: boolean) => void;
+  onEdit?: (user: User) => void;
+  onDelete?: (user: User) => void;
+  onSort: (column: ColumnId, additive: boolean) => void;
+  onResize: (column: ColumnId, width: number) => void;
+  onMove: (column: ColumnId, target: ColumnId) => void;
+  onToggleColumn: (column: ColumnId) => void;
+  onResetColumns: () => void;
+}
+
+const UserTable: React.FC<UserTableProps> = ({
+  darkMode,
+  users,
+  prefs,
+  selectedIds,
+  onToggleSelect,
+  onEdit,
+  onDelete,
+  onSort,
+  onResize,
+  onMove,
+  onToggleColumn,
+  onResetColumns,
+}) => {
+  const [isChooserOpen, setIsChooserOpen] = useState(false);
+  const [draggedColumn, setDraggedColumn] = useState<ColumnId | null>(null);
+  // Width while a resize drag is in progress; saved to prefs on release
+  const [resizing, setResizing] = useState<{ column: ColumnId; width: number } | null>(null);
+  const resizeStartRef = useRef({ x: 0, width: 0 });
+
+  const visibleColumns = prefs.order.filter(id => !prefs.hidden.includes(id)).map(getColumn);
+  const widthOf = (id: ColumnId) =>
+    resizing?.column === id ? resizing.width : prefs.widths[id] ?? getColumn(id).defaultWidth;
+  const hasActions = !!onEdit || !!onDelete;
+
+  useEffect(() => {
+    if (!resizing) return;
+    const handleMove = (e: MouseEvent) => {
+      const { x, width } = resizeStartRef.current;
+      setResizing(prev => prev && { ...prev, width: Math.max(0, width + e.clientX - x) });
+    };
+    const handleUp = () => {
+      onResize(resizing.column, resizing.width);
+      setResizing(null);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [resizing, onResize]);
+
+  const startResize = (e: React.MouseEvent, column: ColumnId) => {
+    e.preventDefault();
+    resizeStartRef.current = { x: e.clientX, width: widthOf(column) };
+    setResizing({ column, width: widthOf(column) });
+  };
+
+  const sortIndex = (column: ColumnId) => prefs.sort.findIndex(rule => rule.column === column);
+
+  return (
+    <div className={`rounded-xl shadow-lg ${darkMode ? 'bg-gray-800 text-white' : 'bg-white'}`}>
+      {/* Column Chooser */}
+      <div className="relative flex items-center justify-between px-4 py-2 text-sm border-b dark:border-gray-700">
+        <span className="text-gray-500">Shift-click a header to sort by several columns</span>
+        <button
+          onClick={() => setIsChooserOpen(!isChooserOpen)}
+          className="flex items-center space-x-1 text-blue-500 hover:underline"
+        >
+          <Columns size={14} />
+          <span>Columns</span>
+        </button>
+        <AnimatePresence>
+          {isChooserOpen && (
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+              className={`absolute right-4 top-full mt-1 w-48 p-3 rounded-lg shadow-lg z-20 ${
+                darkMode ? 'bg-gray-700' : 'bg-white'
+              }`}
+            >
+              {prefs.order.map(id => (
+                <label key={id} className="flex items-center space-x-2 py-1">
+                  <input
+                    type="checkbox"
+                    checked={!prefs.hidden.includes(id)}
+                    onChange={() => onToggleColumn(id)}
+                    className="rounded text-blue-500 focus:ring-blue-500"
+                  />
+                  <span>{getColumn(id).label}</span>
+                </label>
+              ))}
+              <button onClick={onResetColumns} className="mt-2 text-blue-500 hover:underline">
+                Reset columns
+              </button>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="table-fixed text-sm" style={{ minWidth: '100%' }}>
+          <colgroup>
+            {onToggleSelect && <col style={{ width: 40 }} />}
+            {visibleColumns.map(column => (
+              <col key={column.id} style={{ width: widthOf(column.id) }} />
+            ))}
+            {hasActions && <col style={{ width: 96 }} />}
+          </colgroup>
+          <thead className={darkMode ? 'bg-gray-700' : 'bg-gray-50'}>
+            <tr className="text-left">
+              {onToggleSelect && <th className="px-3 py-2" />}
+              {visibleColumns.map(column => {
+                const index = sortIndex(column.id);
+                const rule = prefs.sort[index];
+                return (
+                  <th
+                    key={column.id}
+                    onDragOver={(e) => draggedColumn && e.preventDefault()}
+                    onDrop={() => {
+                      if (draggedColumn) onMove(draggedColumn, column.id);
+                      setDraggedColumn(null);
+                    }}
+                    aria-sort={rule ? (rule.direction === 'asc' ? 'ascending' : 'descending') : undefined}
+                    className={`relative px-3 py-2 select-none ${draggedColumn === column.id ? 'opacity-50' : ''}`}
+                  >
+                    <div className="flex items-center space-x-1">
+                      <span
+                        draggable
+                        onDragStart={() => setDraggedColumn(column.id)}
+                        onDragEnd={() => setDraggedColumn(null)}
+                        aria-label={`Move ${column.label} column`}
+                        className="cursor-grab text-gray-400"
+                      >
+                        <GripVertical size={14} />
+                      </span>
+                      <button
+                        onClick={(e) => onSort(column.id, e.shiftKey)}
+                        className="flex items-center space-x-1 font-medium truncate"
+                      >
+                        <span className="truncate">{column.label}</span>
+                        {rule && (rule.direction === 'asc' ? <ArrowUp size={14} /> : <ArrowDown size={14} />)}
+                        {rule && prefs.sort.length > 1 && <span className="text-xs text-gray-400">{index + 1}</span>}
+                      </button>
+                    </div>
+                    <span
+                      onMouseDown={(e) => startResize(e, column.id)}
+                      aria-hidden
+                      className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-blue-500"
+                    />
+                  </th>
+                );
+              })}
+              {hasActions && <th className="px-3 py-2" />}
+            </tr>
+          </thead>
+          <tbody>
+            {users.map(user => (
+              <tr
+                key={user.id}
+                className={`border-t dark:border-gray-700 ${
+                  selectedIds.has(user.id) ? (darkMode ? 'bg-blue-900/40' : 'bg-blue-50') : ''
+                }`}
+              >
+                {onToggleSelect && (
+                  <td className="px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(user.id)}
+                      readOnly
+                      onClick={(e) => onToggleSelect(user.id, e.shiftKey)}
+                      aria-label={`Select ${user.first_name} ${user.last_name}`}
+                      className="w-4 h-4 rounded text-blue-500 focus:ring-blue-500"
+                    />
+                  </td>
+                )}
+                {visibleColumns.map(column => (
+                  <td key={column.id} className="px-3 py-2 truncate">
+                    {column.id === 'first_name' || column.id === 'last_name' ? (
+                      <Link to={`/users/${user.id}`} className="hover:text-blue-500">
+                        {column.value(user)}
+                      </Link>
+                    ) : (
+                      column.value(user)
+                    )}
+                  </td>
+                ))}
+                {hasActions && (
+                  <td className="px-3 py-1 text-right whitespace-nowrap">
+                    {onEdit && (
+                      <button
+                        onClick={() => onEdit(user)}
+                        aria-label={`Edit ${user.first_name} ${user.last_name}`}
+                        className="p-1.5 text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900 rounded-lg"
+                      >
+                        <Edit2 size={16} />
+                      </button>
+                    )}
+                    {onDelete && (
+                      <button
+                        onClick={() => onDelete(user)}
+                        aria-label={`Delete ${user.first_name} ${user.last_name}`}
+                        className="p-1.5 text-red-500 hover:bg-red-50 dark:hover:bg-red-900 rounded-lg"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    )}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {users.length === 0 && (
+          <p className={`text-center py-8 text-lg ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+            No users found matching your search criteria
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UserTable;
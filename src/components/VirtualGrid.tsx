@@ -0,0 +1,96 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { LayoutGroup } from 'framer-motion';
+
+interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => React.Key;
+  renderItem: (item: T) => React.ReactNode;
+  // Called when the rendered rows come within a few rows of the end
+  onEndReached?: () => void;
+}
+
+// Matches `gap-6` and the `md:`/`lg:` column counts of the paged grid
+const GAP = 24;
+const ESTIMATED_ROW_HEIGHT = 160;
+const OVERSCAN_ROWS = 3;
+
+const columnsForWidth = (width: number) => (width >= 1024 ? 3 : width >= 768 ? 2 : 1);
+
+// A window-scrolled grid that only mounts the rows near the viewport. Rows are
+// assumed to share one height, measured from the first rendered row.
+function VirtualGrid<T>({ items, getKey, renderItem, onEndReached }: VirtualGridProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const firstRowRef = useRef<HTMLDivElement>(null);
+  const [columns, setColumns] = useState(() => columnsForWidth(window.innerWidth));
+  const [rowHeight, setRowHeight] = useState(ESTIMATED_ROW_HEIGHT);
+  const [range, setRange] = useState({ start: 0, end: 0 });
+
+  const rowCount = Math.ceil(items.length / columns);
+  const rowStride = rowHeight + GAP;
+
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const firstVisible = Math.floor(-container.getBoundingClientRect().top / rowStride);
+    const start = Math.max(0, firstVisible - OVERSCAN_ROWS);
+    const end = Math.min(rowCount, Math.max(0, firstVisible) + Math.ceil(window.innerHeight / rowStride) + OVERSCAN_ROWS);
+    setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+  }, [rowStride, rowCount]);
+
+  useLayoutEffect(() => {
+    updateRange();
+    window.addEventListener('scroll', updateRange, { passive: true });
+    window.addEventListener('resize', updateRange);
+    return () => {
+      window.removeEventListener('scroll', updateRange);
+      window.removeEventListener('resize', updateRange);
+    };
+  }, [updateRange]);
+
+  useEffect(() => {
+    const handleResize = () => setColumns(columnsForWidth(window.innerWidth));
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  useEffect(() => {
+    const row = firstRowRef.current;
+    if (!row) return;
+    const observer = new ResizeObserver(() => {
+      if (row.offsetHeight > 0) setRowHeight(row.offsetHeight);
+    });
+    observer.observe(row);
+    return () => observer.disconnect();
+  }, [range.start, rowCount]);
+
+  useEffect(() => {
+    if (range.end >= rowCount - OVERSCAN_ROWS) {
+      onEndReached?.();
+    }
+  }, [range.end, rowCount, onEndReached]);
+
+  const rows = Array.from({ length: range.end - range.start }, (_, index) => range.start + index);
+
+  return (
+    <div ref={containerRef} className="relative" style={{ height: Math.max(0, rowCount * rowStride - GAP) }}>
+      <LayoutGroup>
+        <div className="space-y-6" style={{ transform: `translateY(${range.start * rowStride}px)` }}>
+          {rows.map(rowIndex => (
+            <div
+              key={rowIndex}
+              ref={rowIndex === range.start ? firstRowRef : undefined}
+              className="grid gap-6"
+              style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+            >
+              {items.slice(rowIndex * columns, (rowIndex + 1) * columns).map(item => (
+                <React.Fragment key={getKey(item)}>{renderItem(item)}</React.Fragment>
+              ))}
+            </div>
+          ))}
+        </div>
+      </LayoutGroup>
+    </div>
+  );
+}
+
+export default VirtualGrid;
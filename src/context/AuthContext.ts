@@ -0,0 +1,14 @@
+import { createContext } from 'react';
+import type { Session } from '../utils/session';
+import type { Permission, Role } from '../utils/permissions';
+
+export interface AuthContextValue {
+  session: Session | null;
+  expired: boolean;
+  role: Role | null;
+  can: (permission: Permission) => boolean;
+  signIn: (token: string, email: string) => void;
+  signOut: () => void;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
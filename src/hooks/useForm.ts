@@ -0,0 +1,71 @@
+import { useState, useMemo, useCallback } from 'react';
+import type { FormEvent } from 'react';
+import { getErrorMessage } from '../utils/apiError';
+import { fieldErrorsFromError, hasErrors, isFormDirty, validateValues } from '../utils/formSchema';
+import type { FormErrors, FormSchema } from '../utils/formSchema';
+
+// Values that were submitted and then turned down, e.g. by a save that ran after the form closed
+export interface RejectedSubmit<T> {
+  values: T;
+  error: unknown;
+}
+
+interface UseFormOptions<T> {
+  initialValues: T;
+  rejectedSubmit?: RejectedSubmit<T>;
+  schema: FormSchema<T>;
+  // Throw to keep the form open: errors about a field are shown on it, anything else above the form
+  onSubmit: (values: T) => Promise<void>;
+}
+
+// Errors about a field go next to it, anything else above the form
+const describeError = <T extends object>(error: unknown, values: T, schema: FormSchema<T>) => {
+  const fields = Array.from(new Set([...Object.keys(values), ...Object.keys(schema)])) as (keyof T)[];
+  const fieldErrors = fieldErrorsFromError(error, fields);
+  return hasErrors(fieldErrors)
+    ? { errors: fieldErrors, formError: '' }
+    : { errors: {}, formError: getErrorMessage(error, 'Something went wrong') };
+};
+
+export function useForm<T extends object>({ initialValues, rejectedSubmit, schema, onSubmit }: UseFormOptions<T>) {
+  // Later changes to `initialValues` are ignored so a refetch can't wipe out edits
+  const [initial] = useState(initialValues);
+  const [values, setValues] = useState(rejectedSubmit?.values ?? initialValues);
+  const [rejection] = useState(() =>
+    rejectedSubmit ? describeError(rejectedSubmit.error, rejectedSubmit.values, schema) : null
+  );
+  const [errors, setErrors] = useState<FormErrors<T>>(rejection?.errors ?? {});
+  const [formError, setFormError] = useState(rejection?.formError ?? '');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isDirty = useMemo(() => isFormDirty(initial, values), [initial, values]);
+
+  const setValue = useCallback(<K extends keyof T>(field: K, value: T[K]) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => ({ ...prev, [field]: '' }));
+    setFormError('');
+  }, []);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+
+    const validationErrors = validateValues(schema, values);
+    setErrors(validationErrors);
+    setFormError('');
+    if (hasErrors(validationErrors)) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(values);
+    } catch (error) {
+      const described = describeError(error, values, schema);
+      setErrors(described.errors);
+      setFormError(described.formError);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return { values, errors, formError, isDirty, isSubmitting, setValue, setErrors, handleSubmit };
+}
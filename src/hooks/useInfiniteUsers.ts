@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { fetchQuery, getQueryState, prefetchQuery, subscribeQuery } from '../utils/queryCache';
+import type { QueryState } from '../utils/queryCache';
+import { usersPageFetcher, usersQueryKey } from '../utils/userQueries';
+import type { UsersResponse } from '../types';
+
+// How many pages were loaded, so coming back from a detail view shows the same list
+const LOADED_PAGES_KEY = 'infiniteUsersPages';
+
+const loadPageCount = () => Math.max(1, Number(sessionStorage.getItem(LOADED_PAGES_KEY)) || 1);
+
+// Loads `/users` one page at a time and concatenates them. Each page is its own
+// cache entry, so edits made through the usual cache helpers show up here too.
+export function useInfiniteUsers(enabled: boolean) {
+  const [pageCount, setPageCount] = useState(loadPageCount);
+
+  useEffect(() => {
+    sessionStorage.setItem(LOADED_PAGES_KEY, String(pageCount));
+  }, [pageCount]);
+
+  const keys = useMemo(
+    () => Array.from({ length: pageCount }, (_, index) => usersQueryKey(index + 1)),
+    [pageCount]
+  );
+
+  const subscribe = useCallback(
+    (listener: () => void) => {
+      if (!enabled) return () => {};
+      const unsubscribes = keys.map(key => subscribeQuery(key, listener));
+      return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    },
+    [keys, enabled]
+  );
+
+  // useSyncExternalStore needs the same array back until one of the pages changes
+  const snapshotRef = useRef<QueryState<UsersResponse>[]>([]);
+  const getSnapshot = useCallback(() => {
+    const states = keys.map(key => getQueryState<UsersResponse>(key));
+    const previous = snapshotRef.current;
+    if (previous.length !== states.length || states.some((state, index) => state !== previous[index])) {
+      snapshotRef.current = states;
+    }
+    return snapshotRef.current;
+  }, [keys]);
+
+  const pages = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (!enabled) return;
+    keys.forEach((key, index) => prefetchQuery(key, usersPageFetcher(index + 1)));
+  }, [keys, enabled]);
+
+  const users = useMemo(() => pages.flatMap(page => page.data?.data ?? []), [pages]);
+  const firstPage = pages[0]?.data;
+  const lastPage = pages[pages.length - 1];
+  const totalPages = firstPage?.total_pages ?? 1;
+  const isFetching = pages.some(page => page.isFetching);
+  const error = pages.find(page => page.error)?.error;
+  const hasMore = pageCount < totalPages;
+
+  const loadMore = useCallback(() => {
+    if (!lastPage?.data || isFetching || error) return;
+    setPageCount(count => Math.min(count + 1, totalPages));
+  }, [lastPage, isFetching, error, totalPages]);
+
+  const retry = useCallback(() => {
+    keys.forEach((key, index) => {
+      if (getQueryState(key).error) fetchQuery(key, usersPageFetcher(index + 1));
+    });
+  }, [keys]);
+
+  return {
+    users,
+    total: firstPage?.total,
+    perPage: firstPage?.per_page,
+    error,
+    isLoading: enabled && firstPage === undefined && !error,
+    isFetching,
+    hasMore,
+    loadMore,
+    retry,
+  };
+}
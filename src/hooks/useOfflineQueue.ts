@@ -0,0 +1,16 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { getQueue, isReplaying, subscribeQueue } from '../utils/offlineQueue';
+import { useAuth } from './useAuth';
+
+// The signed-in user's queued changes, including ones the server rejected
+export function useOfflineQueue() {
+  const queue = useSyncExternalStore(subscribeQueue, getQueue);
+  const replaying = useSyncExternalStore(subscribeQueue, isReplaying);
+  const { session } = useAuth();
+  const email = session?.email;
+
+  return useMemo(() => {
+    const pending = queue.filter(mutation => mutation.actor === email);
+    return { pending, conflicts: pending.filter(mutation => mutation.conflict), isReplaying: replaying };
+  }, [queue, email, replaying]);
+}
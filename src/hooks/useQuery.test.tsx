@@ -0,0 +1,40 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useQuery } from './useQuery';
+import { clearQueries } from '../utils/queryCache';
+
+describe('useQuery', () => {
+  afterEach(() => {
+    clearQueries();
+  });
+
+  it('shows the current page even when the previous page answers last', async () => {
+    const resolvers = new Map<number, (value: string) => void>();
+    const signals = new Map<number, AbortSignal>();
+    const fetchPage = (page: number) => (signal: AbortSignal) =>
+      new Promise<string>((resolve) => {
+        resolvers.set(page, resolve);
+        signals.set(page, signal);
+      });
+
+    const { result, rerender } = renderHook(
+      ({ page }) => useQuery(['users', 'page', page], fetchPage(page)),
+      { initialProps: { page: 1 } }
+    );
+    rerender({ page: 2 });
+
+    // Leaving page 1 cancels its request
+    await waitFor(() => expect(signals.get(1)?.aborted).toBe(true));
+
+    await act(async () => {
+      resolvers.get(2)?.('page 2');
+    });
+    await act(async () => {
+      resolvers.get(1)?.('page 1');
+    });
+
+    expect(result.current.data).toBe('page 2');
+    expect(result.current.isFetching).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import {
+  fetchQuery,
+  getQueryState,
+  hashQueryKey,
+  isQueryStale,
+  subscribeQuery,
+} from '../utils/queryCache';
+import type { QueryFetcher, QueryKey } from '../utils/queryCache';
+
+interface UseQueryOptions {
+  enabled?: boolean;
+  staleTime?: number;
+}
+
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  { enabled = true, staleTime = 0 }: UseQueryOptions = {}
+) {
+  const hash = hashQueryKey(key);
+  // Keep the key referentially stable for as long as its contents don't change
+  const queryKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeQuery(queryKey, listener),
+    [queryKey]
+  );
+  const getSnapshot = useCallback(() => getQueryState<T>(queryKey), [queryKey]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (enabled && isQueryStale(queryKey, staleTime)) {
+      fetchQuery(queryKey, (signal) => fetcherRef.current(signal));
+    }
+  }, [queryKey, enabled, staleTime]);
+
+  const refetch = useCallback(
+    () => fetchQuery(queryKey, (signal) => fetcherRef.current(signal)),
+    [queryKey]
+  );
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: enabled && state.data === undefined && !state.error,
+    isFetching: state.isFetching,
+    refetch,
+  };
+}
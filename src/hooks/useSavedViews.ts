@@ -0,0 +1,33 @@
+import { useState, useEffect, useCallback } from 'react';
+import { createViewId, loadSavedViews, storeSavedViews } from '../utils/savedViews';
+import type { SavedView, ViewFilters } from '../utils/savedViews';
+
+export function useSavedViews() {
+  const [views, setViews] = useState<SavedView[]>(loadSavedViews);
+
+  useEffect(() => {
+    storeSavedViews(views);
+  }, [views]);
+
+  const saveView = useCallback((name: string, filters: ViewFilters) => {
+    setViews(prev => [...prev, { id: createViewId(), name, ...filters }]);
+  }, []);
+
+  const renameView = useCallback((id: string, name: string) => {
+    setViews(prev => prev.map(view => (view.id === id ? { ...view, name } : view)));
+  }, []);
+
+  const deleteView = useCallback((id: string) => {
+    setViews(prev => prev.filter(view => view.id !== id));
+  }, []);
+
+  // Imported views replace existing ones with the same id and are appended otherwise
+  const importViews = useCallback((imported: SavedView[]) => {
+    setViews(prev => {
+      const importedIds = new Set(imported.map(view => view.id));
+      return [...prev.filter(view => !importedIds.has(view.id)), ...imported];
+    });
+  }, []);
+
+  return { views, saveView, renameView, deleteView, importViews };
+}
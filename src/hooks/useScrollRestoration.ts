@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react';
+
+// Remembers the window scroll position under `key` for the rest of the browser
+// session and jumps back to it once `ready` (e.g. the list has rendered).
+export function useScrollRestoration(key: string, ready: boolean, enabled = true) {
+  const positionRef = useRef(window.scrollY);
+  const restoredRef = useRef(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleScroll = () => {
+      positionRef.current = window.scrollY;
+    };
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      window.removeEventListener('scroll', handleScroll);
+      // By now the page may be gone and the window clamped, so save the last known position
+      sessionStorage.setItem(key, String(positionRef.current));
+    };
+  }, [key, enabled]);
+
+  useEffect(() => {
+    if (!enabled || !ready || restoredRef.current) return;
+    restoredRef.current = true;
+    const saved = Number(sessionStorage.getItem(key));
+    if (saved > 0) {
+      requestAnimationFrame(() => window.scrollTo(0, saved));
+    }
+  }, [key, ready, enabled]);
+}
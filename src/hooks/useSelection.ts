@@ -0,0 +1,45 @@
+import { useState, useRef, useCallback } from 'react';
+
+export function useSelection(orderedIds: number[]) {
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const anchorRef = useRef<number | null>(null);
+
+  // With `range`, everything between the last clicked id and this one gets selected
+  const toggle = useCallback((id: number, range = false) => {
+    const anchorIndex = anchorRef.current === null ? -1 : orderedIds.indexOf(anchorRef.current);
+    const index = orderedIds.indexOf(id);
+
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (range && anchorIndex !== -1 && index !== -1) {
+        const [start, end] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+        orderedIds.slice(start, end + 1).forEach(rangeId => next.add(rangeId));
+      } else if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+    anchorRef.current = id;
+  }, [orderedIds]);
+
+  const selectAll = useCallback(() => {
+    setSelectedIds(new Set(orderedIds));
+  }, [orderedIds]);
+
+  const deselect = useCallback((ids: number[]) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => next.delete(id));
+      return next;
+    });
+  }, []);
+
+  const clear = useCallback(() => {
+    setSelectedIds(new Set());
+    anchorRef.current = null;
+  }, []);
+
+  return { selectedIds, toggle, selectAll, deselect, clear };
+}
@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import {
+  DEFAULT_TABLE_PREFS,
+  MIN_COLUMN_WIDTH,
+  loadTablePrefs,
+  storeTablePrefs,
+  toggleSortRule,
+} from '../utils/userTable';
+import type { ColumnId, TablePrefs, UsersLayout } from '../utils/userTable';
+
+// Layout and table settings, stored separately for each signed-in user
+export function useTablePrefs() {
+  const email = useAuth().session?.email ?? '';
+  const [prefs, setPrefs] = useState<TablePrefs>(() => loadTablePrefs(email));
+
+  useEffect(() => {
+    if (email) storeTablePrefs(email, prefs);
+  }, [email, prefs]);
+
+  const setLayout = useCallback((layout: UsersLayout) => {
+    setPrefs(prev => ({ ...prev, layout }));
+  }, []);
+
+  const toggleSort = useCallback((column: ColumnId, additive: boolean) => {
+    setPrefs(prev => ({ ...prev, sort: toggleSortRule(prev.sort, column, additive) }));
+  }, []);
+
+  const resizeColumn = useCallback((column: ColumnId, width: number) => {
+    setPrefs(prev => ({
+      ...prev,
+      widths: { ...prev.widths, [column]: Math.max(MIN_COLUMN_WIDTH, Math.round(width)) },
+    }));
+  }, []);
+
+  // Moves `column` to where `target` currently is
+  const moveColumn = useCallback((column: ColumnId, target: ColumnId) => {
+    setPrefs(prev => {
+      if (column === target) return prev;
+      const order = prev.order.filter(id => id !== column);
+      order.splice(prev.order.indexOf(target), 0, column);
+      return { ...prev, order };
+    });
+  }, []);
+
+  // At least one column always stays visible
+  const toggleColumn = useCallback((column: ColumnId) => {
+    setPrefs(prev => {
+      if (prev.hidden.includes(column)) {
+        return { ...prev, hidden: prev.hidden.filter(id => id !== column) };
+      }
+      if (prev.hidden.length >= prev.order.length - 1) return prev;
+      return {
+        ...prev,
+        hidden: [...prev.hidden, column],
+        sort: prev.sort.filter(rule => rule.column !== column),
+      };
+    });
+  }, []);
+
+  const resetColumns = useCallback(() => {
+    setPrefs(prev => ({ ...DEFAULT_TABLE_PREFS, layout: prev.layout }));
+  }, []);
+
+  return { prefs, setLayout, toggleSort, resizeColumn, moveColumn, toggleColumn, resetColumns };
+}
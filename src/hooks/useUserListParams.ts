@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { USER_FACETS } from '../utils/userProfile';
+import type { FacetId } from '../utils/userProfile';
+import type { SortDirection } from '../types';
+
+export type FacetFilters = Record<FacetId, string[]>;
+
+export interface UserListParams {
+  page: number;
+  search: string;
+  letter: string;
+  sort: SortDirection;
+  domains: string[];
+  // Profile facets, each a repeated query param named after the facet
+  facets: FacetFilters;
+  allPages: boolean;
+}
+
+const FILTERS_KEY = 'userFilters';
+
+export const defaultUserListParams: UserListParams = {
+  page: 1,
+  search: '',
+  letter: '',
+  sort: 'asc',
+  domains: [],
+  facets: { department: [], location: [], status: [] },
+  allPages: true,
+};
+
+const readList = (searchParams: URLSearchParams, name: string) =>
+  Array.from(
+    new Set(
+      searchParams
+        .getAll(name)
+        .map(value => value.trim())
+        .filter(Boolean)
+    )
+  ).sort();
+
+// Anything malformed falls back to its default instead of breaking the page
+export const parseUserListParams = (searchParams: URLSearchParams): UserListParams => {
+  const page = Number(searchParams.get('page'));
+  const letter = (searchParams.get('letter') ?? '').toUpperCase();
+  const sort = searchParams.get('sort');
+
+  return {
+    page: Number.isInteger(page) && page > 0 ? page : defaultUserListParams.page,
+    search: searchParams.get('q') ?? defaultUserListParams.search,
+    letter: /^[A-Z]$/.test(letter) ? letter : defaultUserListParams.letter,
+    sort: sort === 'asc' || sort === 'desc' ? sort : defaultUserListParams.sort,
+    domains: readList(searchParams, 'domain'),
+    facets: Object.fromEntries(
+      USER_FACETS.map(facet => [facet.id, readList(searchParams, facet.id)])
+    ) as FacetFilters,
+    allPages: searchParams.get('scope') !== 'page',
+  };
+};
+
+// Serialises in a fixed order and leaves defaults out, so equal views share one URL
+export const serializeUserListParams = (params: UserListParams) => {
+  const searchParams = new URLSearchParams();
+  if (params.search) searchParams.set('q', params.search);
+  if (params.letter) searchParams.set('letter', params.letter);
+  params.domains.forEach(domain => searchParams.append('domain', domain));
+  USER_FACETS.forEach(facet => {
+    params.facets[facet.id].forEach(value => searchParams.append(facet.id, value));
+  });
+  if (params.sort !== defaultUserListParams.sort) searchParams.set('sort', params.sort);
+  if (!params.allPages) searchParams.set('scope', 'page');
+  if (params.page !== defaultUserListParams.page) searchParams.set('page', String(params.page));
+  return searchParams;
+};
+
+const loadSavedFilters = (): UserListParams => {
+  try {
+    const { selectedLetter, sortDirection, selectedDomains } = JSON.parse(
+      localStorage.getItem(FILTERS_KEY) ?? '{}'
+    );
+    return {
+      ...defaultUserListParams,
+      letter: typeof selectedLetter === 'string' ? selectedLetter : '',
+      sort: sortDirection,
+      domains: Array.isArray(selectedDomains) ? selectedDomains.map(String) : [],
+    };
+  } catch {
+    return defaultUserListParams;
+  }
+};
+
+export function useUserListParams() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const params = useMemo(() => parseUserListParams(searchParams), [searchParams]);
+  const restoredRef = useRef(false);
+
+  // On a bare /users visit, bring back the filters used last time. This has to run
+  // before the effect below saves the (still default) filters over them.
+  useEffect(() => {
+    if (restoredRef.current) return;
+    restoredRef.current = true;
+    if (searchParams.toString() === '') {
+      // Round-trip through the parser so a corrupted entry can't leak into the URL
+      const restored = serializeUserListParams(
+        parseUserListParams(serializeUserListParams(loadSavedFilters()))
+      );
+      if (restored.toString() !== '') {
+        setSearchParams(restored, { replace: true });
+      }
+    }
+  }, [searchParams, setSearchParams]);
+
+  useEffect(() => {
+    const savedFilters = {
+      selectedLetter: params.letter,
+      sortDirection: params.sort,
+      selectedDomains: params.domains,
+    };
+    localStorage.setItem(FILTERS_KEY, JSON.stringify(savedFilters));
+  }, [params.letter, params.sort, params.domains]);
+
+  // Rewrite malformed or non-canonical URLs in place
+  useEffect(() => {
+    const canonical = serializeUserListParams(params);
+    if (canonical.toString() !== searchParams.toString()) {
+      setSearchParams(canonical, { replace: true });
+    }
+  }, [params, searchParams, setSearchParams]);
+
+  const updateParams = useCallback(
+    (changes: Partial<UserListParams>, { replace = false } = {}) => {
+      setSearchParams(
+        prev => serializeUserListParams({ ...parseUserListParams(prev), ...changes }),
+        { replace }
+      );
+    },
+    [setSearchParams]
+  );
+
+  return [params, updateParams] as const;
+}
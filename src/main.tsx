@@ -1,8 +1,13 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { persistOfflineCache, restoreOfflineCache } from './utils/offlineCache';
 import './index.css';
 
+// Last-known user data, so the directory still reads when the network drops
+restoreOfflineCache();
+persistOfflineCache();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
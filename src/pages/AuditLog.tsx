@@ -0,0 +1,212 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Download } from 'lucide-react';
+import toast from 'react-hot-toast';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { listAuditEntries } from '../utils/auditLog';
+import type { AuditAction, AuditEntry } from '../utils/auditLog';
+import { downloadFile, toCsv } from '../utils/export';
+
+interface AuditLogProps {
+  darkMode: boolean;
+}
+
+const actionStyles: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+const formatChanges = (entry: AuditEntry) =>
+  entry.changes
+    .map(({ field, before, after }) => `${field}: ${before ?? '∅'} → ${after ?? '∅'}`)
+    .join('; ');
+
+const AuditLog: React.FC<AuditLogProps> = ({ darkMode }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actor, setActor] = useState('');
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  useEffect(() => {
+    listAuditEntries()
+      .then(setEntries)
+      .catch(() => toast.error('Failed to load the audit log'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const actors = useMemo(
+    () => Array.from(new Set(entries.map(entry => entry.actor))).sort(),
+    [entries]
+  );
+
+  const filteredEntries = useMemo(() => {
+    // Date inputs are local calendar days; `to` includes the whole day
+    const from = fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : -Infinity;
+    const to = toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : Infinity;
+
+    return entries.filter(entry =>
+      (!actor || entry.actor === actor) &&
+      (!action || entry.action === action) &&
+      entry.timestamp >= from &&
+      entry.timestamp <= to
+    );
+  }, [entries, actor, action, fromDate, toDate]);
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadFile(`audit-${date}.json`, JSON.stringify(filteredEntries, null, 2), 'application/json');
+      return;
+    }
+    const rows = filteredEntries.map(entry => ({
+      timestamp: new Date(entry.timestamp).toISOString(),
+      actor: entry.actor,
+      action: entry.action,
+      target_id: entry.targetId,
+      target_name: entry.targetName,
+      changes: formatChanges(entry),
+    }));
+    downloadFile(
+      `audit-${date}.csv`,
+      `\uFEFF${toCsv(rows, ['timestamp', 'actor', 'action', 'target_id', 'target_name', 'changes'])}`,
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  const inputClass = `px-3 py-2 rounded-lg border ${
+    darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300'
+  }`;
+
+  return (
+    <div className="container mx-auto px-4 py-24">
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className={`mb-8 p-6 rounded-xl shadow-lg ${darkMode ? 'bg-gray-800/80 text-white' : 'bg-white/80'}`}
+      >
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Actor</label>
+            <select value={actor} onChange={(e) => setActor(e.target.value)} className={inputClass}>
+              <option value="">Everyone</option>
+              {actors.map(email => (
+                <option key={email} value={email}>{email}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Action</label>
+            <select
+              value={action}
+              onChange={(e) => setAction(e.target.value as AuditAction | '')}
+              className={inputClass}
+            >
+              <option value="">All actions</option>
+              <option value="create">Create</option>
+              <option value="update">Update</option>
+              <option value="delete">Delete</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">From</label>
+            <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">To</label>
+            <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={inputClass} />
+          </div>
+          <div className="ml-auto flex space-x-2">
+            {(['csv', 'json'] as const).map(format => (
+              <motion.button
+                key={format}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => handleExport(format)}
+                disabled={filteredEntries.length === 0}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-lg disabled:opacity-50 ${
+                  darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'
+                }`}
+              >
+                <Download size={16} />
+                <span>{format.toUpperCase()}</span>
+              </motion.button>
+            ))}
+          </div>
+        </div>
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        className={`rounded-xl shadow-lg overflow-x-auto ${darkMode ? 'bg-gray-800 text-white' : 'bg-white'}`}
+      >
+        {filteredEntries.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead className={darkMode ? 'bg-gray-700' : 'bg-gray-50'}>
+              <tr className="text-left">
+                <th className="px-4 py-3">When</th>
+                <th className="px-4 py-3">Actor</th>
+                <th className="px-4 py-3">Action</th>
+                <th className="px-4 py-3">User</th>
+                <th className="px-4 py-3">Changes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredEntries.map(entry => (
+                <tr key={entry.id} className="border-t dark:border-gray-700 align-top">
+                  <td className="px-4 py-3 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                  <td className="px-4 py-3">{entry.actor}</td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${actionStyles[entry.action]}`}>
+                      {entry.action}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    {entry.action === 'delete' ? (
+                      entry.targetName
+                    ) : (
+                      <Link to={`/users/${entry.targetId}`} className="text-blue-500 hover:underline">
+                        {entry.targetName}
+                      </Link>
+                    )}
+                    <span className="ml-1 text-gray-400">#{entry.targetId}</span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <ul className="space-y-1">
+                      {entry.changes.map(({ field, before, after }) => (
+                        <li key={field}>
+                          <span className="font-medium">{field}</span>:{' '}
+                          {before !== null && <span className="line-through text-red-500">{before}</span>}
+                          {before !== null && after !== null && ' → '}
+                          {after !== null && <span className="text-green-600">{after}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className={`text-center py-8 text-lg ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+            No audit entries match these filters
+          </p>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default AuditLog;
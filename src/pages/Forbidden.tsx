@@ -0,0 +1,30 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ShieldOff } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+
+const Forbidden: React.FC = () => {
+  const { role } = useAuth();
+
+  return (
+    <div className="container mx-auto px-4 py-24 max-w-2xl">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="p-8 rounded-xl shadow-lg text-center bg-white dark:bg-gray-800 dark:text-white"
+      >
+        <ShieldOff size={48} className="mx-auto mb-4 text-gray-400" />
+        <h2 className="text-2xl font-bold mb-2">Access denied</h2>
+        <p className="mb-6 text-gray-600 dark:text-gray-400">
+          Your role{role ? ` (${role})` : ''} does not allow you to view this page.
+        </p>
+        <Link to="/users" className="text-blue-500 hover:underline">
+          Back to users
+        </Link>
+      </motion.div>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -1,69 +1,57 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React from 'react';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
+import type { Location } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Lock, Mail } from 'lucide-react';
+import { Lock, Mail, Clock } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { login } from '../utils/api';
+import { getErrorMessage, isApiError } from '../utils/apiError';
+import { email, password } from '../utils/formSchema';
+import type { FormSchema } from '../utils/formSchema';
+import { useAuth } from '../hooks/useAuth';
+import { useForm } from '../hooks/useForm';
 
-const Login: React.FC = () => {
-  const navigate = useNavigate();
-  const [email, setEmail] = useState('');
-  const [password, setPassword] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [errors, setErrors] = useState({ email: '', password: '' });
-
-  const validateForm = () => {
-    let isValid = true;
-    const newErrors = { email: '', password: '' };
-
-    if (!email) {
-      newErrors.email = 'Email is required';
-      isValid = false;
-    } else if (!/\S+@\S+\.\S+/.test(email)) {
-      newErrors.email = 'Please enter a valid email';
-      isValid = false;
-    }
-
-    if (!password) {
-      newErrors.password = 'Password is required';
-      isValid = false;
-    } else if (password.length < 4) {
-      newErrors.password = 'Password must be at least 4 characters';
-      isValid = false;
-    }
-
-    setErrors(newErrors);
-    return isValid;
-  };
+interface LoginValues {
+  email: string;
+  password: string;
+}
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!validateForm()) {
-      return;
-    }
-
-    setIsLoading(true);
+const loginSchema: FormSchema<LoginValues> = {
+  email: [email()],
+  password: [password()],
+};
 
-    try {
-      const response = await login(email, password);
-      if (response.token) {
-        localStorage.setItem('token', response.token);
+const Login: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { signIn, expired } = useAuth();
+  const from = (location.state as { from?: Location } | null)?.from;
+  const { values, errors, isSubmitting, setValue, setErrors, handleSubmit } = useForm({
+    initialValues: { email: '', password: '' },
+    schema: loginSchema,
+    onSubmit: async (credentials: LoginValues) => {
+      try {
+        const response = await login(credentials.email, credentials.password);
+        signIn(response.token, credentials.email);
         toast.success('Login successful!');
-        navigate('/users');
-      } else {
-        toast.error('Invalid credentials');
+        navigate(from ? `${from.pathname}${from.search}${from.hash}` : '/users', { replace: true });
+      } catch (error) {
+        // Only a rejection from the server means the credentials are wrong;
+        // outages and bad responses shouldn't send people to reset their password
+        const rejected =
+          isApiError(error, 'unauthorized') || (isApiError(error, 'validation') && error.status !== undefined);
+        if (rejected) {
+          toast.error('Invalid email or password');
+          setErrors({
+            email: 'Invalid email or password',
+            password: 'Invalid email or password'
+          });
+        } else {
+          toast.error(getErrorMessage(error, 'Sign in failed'));
+        }
       }
-    } catch (error) {
-      toast.error('Invalid email or password');
-      setErrors({
-        email: 'Invalid email or password',
-        password: 'Invalid email or password'
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  };
+    },
+  });
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-500 to-purple-600 p-4">
@@ -80,7 +68,13 @@ const Login: React.FC = () => {
           <h2 className="text-3xl font-bold text-center mb-8 text-gray-800">
             Welcome Back
           </h2>
-          <form onSubmit={handleSubmit} className="space-y-6">
+          {expired && (
+            <div className="flex items-center space-x-2 mb-6 p-3 rounded-lg bg-yellow-50 text-yellow-800 text-sm">
+              <Clock size={16} />
+              <span>Your session expired. Please sign in again.</span>
+            </div>
+          )}
+          <form onSubmit={handleSubmit} noValidate className="space-y-6">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Email
@@ -89,11 +83,8 @@ const Login: React.FC = () => {
                 <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
                 <input
                   type="email"
-                  value={email}
-                  onChange={(e) => {
-                    setEmail(e.target.value);
-                    setErrors(prev => ({ ...prev, email: '' }));
-                  }}
+                  value={values.email}
+                  onChange={(e) => setValue('email', e.target.value)}
                   className={`w-full pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
                     errors.email ? 'border-red-500' : 'border-gray-300'
                   }`}
@@ -112,11 +103,8 @@ const Login: React.FC = () => {
                 <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
                 <input
                   type="password"
-                  value={password}
-                  onChange={(e) => {
-                    setPassword(e.target.value);
-                    setErrors(prev => ({ ...prev, password: '' }));
-                  }}
+                  value={values.password}
+                  onChange={(e) => setValue('password', e.target.value)}
                   className={`w-full pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
                     errors.password ? 'border-red-500' : 'border-gray-300'
                   }`}
@@ -131,14 +119,20 @@ const Login: React.FC = () => {
               whileHover={{ scale: 1.02 }}
               whileTap={{ scale: 0.98 }}
               type="submit"
-              disabled={isLoading}
+              disabled={isSubmitting}
               className={`w-full py-3 px-4 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-lg font-medium ${
-                isLoading ? 'opacity-70 cursor-not-allowed' : ''
+                isSubmitting ? 'opacity-70 cursor-not-allowed' : ''
               }`}
             >
-              {isLoading ? 'Logging in...' : 'Sign In'}
+              {isSubmitting ? 'Logging in...' : 'Sign In'}
             </motion.button>
           </form>
+          <p className="mt-6 text-center text-sm text-gray-600">
+            Don't have an account?{' '}
+            <Link to="/register" className="font-medium text-blue-600 hover:underline">
+              Sign up
+            </Link>
+          </p>
         </motion.div>
       </motion.div>
     </div>
@@ -0,0 +1,328 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, ChevronDown, ChevronRight, ZoomIn, ZoomOut } from 'lucide-react';
+import toast from 'react-hot-toast';
+import LoadingSpinner from '../components/LoadingSpinner';
+import UserSummary from '../components/UserSummary';
+import { isUnauthorizedError } from '../utils/api';
+import { getErrorMessage } from '../utils/apiError';
+import { recordChange } from '../utils/auditLog';
+import { QUEUED_MESSAGE, updateUserOrQueue } from '../utils/offlineQueue';
+import { buildOrgChart, countReports, wouldCreateCycle } from '../utils/orgChart';
+import type { OrgNode } from '../utils/orgChart';
+import { allUsersQueryKey, allUsersFetcher, updateCachedUser } from '../utils/userQueries';
+import { useQuery } from '../hooks/useQuery';
+import { useAuth } from '../hooks/useAuth';
+import type { User } from '../types';
+
+interface OrgChartProps {
+  darkMode: boolean;
+}
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 1.5;
+const ZOOM_STEP = 0.1;
+
+// Drop target for moving someone to the top level
+const ROOT_TARGET = 'root';
+
+const fullName = (user: User) => `${user.first_name} ${user.last_name}`;
+
+const collectManagerIds = (nodes: OrgNode[]): number[] =>
+  nodes.flatMap(node =>
+    node.reports.length > 0 ? [node.user.id, ...collectManagerIds(node.reports)] : []
+  );
+
+interface OrgBranchProps {
+  node: OrgNode;
+  darkMode: boolean;
+  collapsed: Set<number>;
+  orphanIds: Set<number>;
+  cycleIds: Set<number>;
+  draggable: boolean;
+  dropTarget: number | typeof ROOT_TARGET | null;
+  onToggle: (id: number) => void;
+  onDragStart: (id: number) => void;
+  onDragEnd: () => void;
+  onDragOver: (e: React.DragEvent, id: number) => void;
+  onDrop: (e: React.DragEvent, id: number) => void;
+}
+
+const OrgBranch: React.FC<OrgBranchProps> = (props) => {
+  const { node, darkMode, collapsed, orphanIds, cycleIds, draggable, dropTarget } = props;
+  const { user, reports } = node;
+  const isCollapsed = collapsed.has(user.id);
+  const reportCount = countReports(node);
+
+  return (
+    <li>
+      <div
+        draggable={draggable}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', String(user.id));
+          props.onDragStart(user.id);
+        }}
+        onDragEnd={props.onDragEnd}
+        onDragOver={(e) => props.onDragOver(e, user.id)}
+        onDrop={(e) => props.onDrop(e, user.id)}
+        className={`flex items-center space-x-3 w-80 p-3 rounded-xl shadow ${
+          darkMode ? 'bg-gray-800' : 'bg-white'
+        } ${dropTarget === user.id ? 'ring-2 ring-blue-500' : ''} ${draggable ? 'cursor-grab' : ''}`}
+      >
+        {reports.length > 0 ? (
+          <button
+            onClick={() => props.onToggle(user.id)}
+            aria-label={isCollapsed ? `Expand ${fullName(user)}` : `Collapse ${fullName(user)}`}
+            aria-expanded={!isCollapsed}
+            className="p-1 text-gray-400 hover:text-gray-600"
+          >
+            {isCollapsed ? <ChevronRight size={16} /> : <ChevronDown size={16} />}
+          </button>
+        ) : (
+          <span className="w-6" />
+        )}
+        <UserSummary user={user} avatarClassName="w-10 h-10" />
+        <div className="flex flex-col items-end space-y-1 text-xs">
+          {reportCount > 0 && (
+            <span
+              title={`${reports.length} direct, ${reportCount} total`}
+              className={`px-2 py-0.5 rounded-full ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}
+            >
+              {reportCount}
+            </span>
+          )}
+          {orphanIds.has(user.id) && (
+            <span className="px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800">No manager</span>
+          )}
+          {cycleIds.has(user.id) && (
+            <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-800">Cycle</span>
+          )}
+        </div>
+      </div>
+      {reports.length > 0 && !isCollapsed && (
+        <ul className={`ml-6 pl-6 pt-3 space-y-3 border-l-2 ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+          {reports.map(report => (
+            <OrgBranch key={report.user.id} {...props} node={report} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+const OrgChart: React.FC<OrgChartProps> = ({ darkMode }) => {
+  const { can } = useAuth();
+  const canEdit = can('user:update');
+  const { data: usersResponse, error, isLoading: loading } = useQuery(allUsersQueryKey, allUsersFetcher);
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  const [zoom, setZoom] = useState(1);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<number | typeof ROOT_TARGET | null>(null);
+
+  const users = useMemo(() => usersResponse?.data ?? [], [usersResponse]);
+  const chart = useMemo(() => buildOrgChart(users), [users]);
+  const cycleIds = useMemo(() => new Set(chart.cycles.flat().map(user => user.id)), [chart]);
+  const usersById = useMemo(() => new Map(users.map(user => [user.id, user])), [users]);
+
+  useEffect(() => {
+    if (error && !isUnauthorizedError(error)) {
+      toast.error(`Failed to fetch users: ${getErrorMessage(error, 'request failed')}`);
+    }
+  }, [error]);
+
+  const toggleCollapsed = (id: number) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
+
+  const changeZoom = (delta: number) => {
+    setZoom(prev => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round((prev + delta) * 10) / 10)));
+  };
+
+  const handleReparent = async (userId: number, managerId: number | undefined) => {
+    const user = usersById.get(userId);
+    if (!user || user.manager_id === managerId) return;
+
+    const manager = managerId === undefined ? undefined : usersById.get(managerId);
+    if (manager && wouldCreateCycle(users, userId, manager.id)) {
+      toast.error(`${fullName(manager)} already reports to ${fullName(user)}`);
+      return;
+    }
+
+    const changes = { manager_id: managerId };
+    updateCachedUser(userId, changes);
+
+    try {
+      if (await updateUserOrQueue(user, changes) === 'queued') {
+        toast.success(QUEUED_MESSAGE);
+        return;
+      }
+      recordChange('update', user, { ...user, ...changes });
+      toast.success(
+        manager
+          ? `${fullName(user)} now reports to ${fullName(manager)}`
+          : `${fullName(user)} moved to the top level`
+      );
+    } catch (error) {
+      updateCachedUser(userId, { manager_id: user.manager_id });
+      toast.error(`Failed to update manager: ${getErrorMessage(error, 'request failed')}`);
+    }
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent, target: number | typeof ROOT_TARGET) => {
+    if (draggedId === null || target === draggedId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = 'move';
+    setDropTarget(target);
+  };
+
+  const handleDrop = (e: React.DragEvent, target: number | typeof ROOT_TARGET) => {
+    if (draggedId === null) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const userId = draggedId;
+    handleDragEnd();
+    handleReparent(userId, target === ROOT_TARGET ? undefined : target);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  const buttonClass = `p-2 rounded-lg disabled:opacity-50 ${
+    darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'
+  }`;
+
+  return (
+    <div className="container mx-auto px-4 py-24">
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className={`mb-6 p-6 rounded-xl shadow-lg ${darkMode ? 'bg-gray-800/80 text-white' : 'bg-white/80'}`}
+      >
+        <div className="flex flex-wrap items-center gap-4">
+          <h1 className="text-2xl font-bold">Org Chart</h1>
+          <span className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            {users.length} people
+            {canEdit && ' · drag someone onto their new manager'}
+          </span>
+          <div className="ml-auto flex items-center space-x-2">
+            <button onClick={() => setCollapsed(new Set())} className={`${buttonClass} text-sm px-3`}>
+              Expand all
+            </button>
+            <button
+              onClick={() => setCollapsed(new Set(collectManagerIds(chart.roots)))}
+              className={`${buttonClass} text-sm px-3`}
+            >
+              Collapse all
+            </button>
+            <button
+              onClick={() => changeZoom(-ZOOM_STEP)}
+              disabled={zoom <= MIN_ZOOM}
+              aria-label="Zoom out"
+              className={buttonClass}
+            >
+              <ZoomOut size={16} />
+            </button>
+            <button onClick={() => setZoom(1)} className="w-12 text-sm text-center" aria-label="Reset zoom">
+              {Math.round(zoom * 100)}%
+            </button>
+            <button
+              onClick={() => changeZoom(ZOOM_STEP)}
+              disabled={zoom >= MAX_ZOOM}
+              aria-label="Zoom in"
+              className={buttonClass}
+            >
+              <ZoomIn size={16} />
+            </button>
+          </div>
+        </div>
+
+        {(chart.cycles.length > 0 || chart.orphanIds.size > 0) && (
+          <ul className="mt-4 space-y-1 text-sm">
+            {chart.cycles.map(cycle => (
+              <li key={cycle[0].id} className="flex items-center space-x-2 text-red-500">
+                <AlertTriangle size={14} />
+                <span>
+                  Reporting cycle: {[...cycle, cycle[0]].map(fullName).join(' → ')}
+                </span>
+              </li>
+            ))}
+            {Array.from(chart.orphanIds, id => usersById.get(id) as User).map(user => (
+              <li key={user.id} className="flex items-center space-x-2 text-yellow-600">
+                <AlertTriangle size={14} />
+                <span>
+                  {fullName(user)}'s manager (#{user.manager_id}) is not in the directory
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </motion.div>
+
+      {canEdit && draggedId !== null && (
+        <div
+          onDragOver={(e) => handleDragOver(e, ROOT_TARGET)}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={(e) => handleDrop(e, ROOT_TARGET)}
+          className={`mb-6 p-4 rounded-xl border-2 border-dashed text-center text-sm ${
+            dropTarget === ROOT_TARGET
+              ? 'border-blue-500 text-blue-500'
+              : darkMode
+              ? 'border-gray-600 text-gray-400'
+              : 'border-gray-300 text-gray-500'
+          }`}
+        >
+          Drop here to remove their manager
+        </div>
+      )}
+
+      {chart.roots.length > 0 ? (
+        <div className="overflow-auto pb-4">
+          <ul
+            className="space-y-3"
+            style={{ transform: `scale(${zoom})`, transformOrigin: 'top left', width: `${100 / zoom}%` }}
+          >
+            {chart.roots.map(node => (
+              <OrgBranch
+                key={node.user.id}
+                node={node}
+                darkMode={darkMode}
+                collapsed={collapsed}
+                orphanIds={chart.orphanIds}
+                cycleIds={cycleIds}
+                draggable={canEdit}
+                dropTarget={dropTarget}
+                onToggle={toggleCollapsed}
+                onDragStart={setDraggedId}
+                onDragEnd={handleDragEnd}
+                onDragOver={handleDragOver}
+                onDrop={handleDrop}
+              />
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className={`text-center py-8 text-lg ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          No users to show
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default OrgChart;
@@ -0,0 +1,133 @@
+import React from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Lock, Mail, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { register } from '../utils/api';
+import { email, matchesField, password, required } from '../utils/formSchema';
+import type { FormSchema } from '../utils/formSchema';
+import { useAuth } from '../hooks/useAuth';
+import { useForm } from '../hooks/useForm';
+
+interface RegisterValues {
+  email: string;
+  password: string;
+  confirmPassword: string;
+}
+
+const registerSchema: FormSchema<RegisterValues> = {
+  email: [email()],
+  password: [password()],
+  confirmPassword: [
+    required('Please confirm your password'),
+    matchesField('password', 'Passwords do not match'),
+  ],
+};
+
+const Register: React.FC = () => {
+  const navigate = useNavigate();
+  const { signIn } = useAuth();
+  const { values, errors, formError, isSubmitting, setValue, handleSubmit } = useForm({
+    initialValues: { email: '', password: '', confirmPassword: '' },
+    schema: registerSchema,
+    onSubmit: async (account: RegisterValues) => {
+      const response = await register(account.email, account.password);
+      signIn(response.token, account.email);
+      toast.success('Account created!');
+      navigate('/users', { replace: true });
+    },
+  });
+
+  const fields = [
+    {
+      name: 'email' as const,
+      label: 'Email',
+      type: 'email',
+      icon: Mail,
+      placeholder: 'Enter your email',
+    },
+    {
+      name: 'password' as const,
+      label: 'Password',
+      type: 'password',
+      icon: Lock,
+      placeholder: 'Choose a password',
+    },
+    {
+      name: 'confirmPassword' as const,
+      label: 'Confirm Password',
+      type: 'password',
+      icon: Lock,
+      placeholder: 'Repeat your password',
+    },
+  ];
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-500 to-purple-600 p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-md"
+      >
+        <motion.div
+          className="bg-white rounded-2xl shadow-xl p-8"
+          whileHover={{ scale: 1.02 }}
+          transition={{ type: "spring", stiffness: 300 }}
+        >
+          <h2 className="text-3xl font-bold text-center mb-8 text-gray-800">
+            Create Account
+          </h2>
+          {formError && (
+            <div className="flex items-center space-x-2 mb-6 p-3 rounded-lg bg-red-50 text-red-700 text-sm">
+              <AlertCircle size={16} className="flex-shrink-0" />
+              <span>{formError}</span>
+            </div>
+          )}
+          <form onSubmit={handleSubmit} noValidate className="space-y-6">
+            {fields.map(({ name, label, type, icon: Icon, placeholder }) => (
+              <div key={name}>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {label}
+                </label>
+                <div className="relative">
+                  <Icon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+                  <input
+                    type={type}
+                    value={values[name]}
+                    onChange={(e) => setValue(name, e.target.value)}
+                    className={`w-full pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                      errors[name] ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                    placeholder={placeholder}
+                  />
+                </div>
+                {errors[name] && (
+                  <p className="mt-1 text-sm text-red-500">{errors[name]}</p>
+                )}
+              </div>
+            ))}
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              type="submit"
+              disabled={isSubmitting}
+              className={`w-full py-3 px-4 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-lg font-medium ${
+                isSubmitting ? 'opacity-70 cursor-not-allowed' : ''
+              }`}
+            >
+              {isSubmitting ? 'Creating account...' : 'Sign Up'}
+            </motion.button>
+          </form>
+          <p className="mt-6 text-center text-sm text-gray-600">
+            Already have an account?{' '}
+            <Link to="/login" className="font-medium text-blue-600 hover:underline">
+              Sign in
+            </Link>
+          </p>
+        </motion.div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default Register;
@@ -0,0 +1,186 @@
+import React, { useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { AlertTriangle, ArrowLeft, Mail, RefreshCw, UserX } from 'lucide-react';
+import toast from 'react-hot-toast';
+import LoadingSpinner from '../components/LoadingSpinner';
+import UserAvatar from '../components/UserAvatar';
+import { isNotFoundError, isUnauthorizedError } from '../utils/api';
+import { getErrorMessage } from '../utils/apiError';
+import { statusLabel } from '../utils/userProfile';
+import { userQueryKey, userFetcher } from '../utils/userQueries';
+import { useQuery } from '../hooks/useQuery';
+
+interface UserDetailProps {
+  darkMode: boolean;
+}
+
+const UserDetail: React.FC<UserDetailProps> = ({ darkMode }) => {
+  const { id } = useParams<{ id: string }>();
+  const userId = Number(id);
+  const isValidId = Number.isInteger(userId) && userId > 0;
+
+  const { data: userResponse, error, isLoading: loading, isFetching, refetch } = useQuery(
+    userQueryKey(userId),
+    userFetcher(userId),
+    { enabled: isValidId }
+  );
+
+  const managerId = userResponse?.data.manager_id;
+  const { data: managerResponse } = useQuery(
+    userQueryKey(managerId ?? 0),
+    userFetcher(managerId ?? 0),
+    { enabled: managerId !== undefined, staleTime: 30000 }
+  );
+  const manager = managerId !== undefined ? managerResponse?.data : undefined;
+
+  const notFound = !isValidId || isNotFoundError(error);
+
+  useEffect(() => {
+    if (error && !isNotFoundError(error) && !isUnauthorizedError(error)) {
+      toast.error(`Failed to fetch user: ${getErrorMessage(error, 'request failed')}`);
+    }
+  }, [error]);
+
+  const backLink = (
+    <Link
+      to="/users"
+      className={`inline-flex items-center space-x-2 mb-6 ${
+        darkMode ? 'text-gray-300 hover:text-white' : 'text-gray-600 hover:text-gray-900'
+      }`}
+    >
+      <ArrowLeft size={18} />
+      <span>Back to users</span>
+    </Link>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (notFound || !userResponse) {
+    return (
+      <div className="container mx-auto px-4 py-24 max-w-2xl">
+        {backLink}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className={`p-8 rounded-xl shadow-lg text-center ${
+            darkMode ? 'bg-gray-800 text-white' : 'bg-white'
+          }`}
+        >
+          {notFound ? (
+            <>
+              <UserX size={48} className="mx-auto mb-4 text-gray-400" />
+              <h2 className="text-2xl font-bold mb-2">User not found</h2>
+              <p className={darkMode ? 'text-gray-400' : 'text-gray-600'}>
+                There is no user with id "{id}".
+              </p>
+            </>
+          ) : (
+            <>
+              <AlertTriangle size={48} className="mx-auto mb-4 text-gray-400" />
+              <h2 className="text-2xl font-bold mb-2">Couldn't load this user</h2>
+              <p className={darkMode ? 'text-gray-400' : 'text-gray-600'}>
+                {getErrorMessage(error, 'The request failed')}
+              </p>
+              <button
+                onClick={() => refetch()}
+                disabled={isFetching}
+                className="mt-6 inline-flex items-center space-x-2 px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+              >
+                <RefreshCw size={16} className={isFetching ? 'animate-spin' : ''} />
+                <span>Try again</span>
+              </button>
+            </>
+          )}
+        </motion.div>
+      </div>
+    );
+  }
+
+  const { data: user, support } = userResponse;
+
+  const profileDetails = [
+    { label: 'Job title', value: user.job_title },
+    { label: 'Department', value: user.department },
+    { label: 'Phone', value: user.phone },
+    { label: 'Location', value: user.location },
+    { label: 'Start date', value: user.start_date && new Date(`${user.start_date}T00:00:00`).toLocaleDateString() },
+    { label: 'Status', value: user.status && statusLabel(user.status) },
+  ].filter(detail => detail.value);
+
+  return (
+    <div className="container mx-auto px-4 py-24 max-w-2xl">
+      {backLink}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className={`p-8 rounded-xl shadow-lg ${
+          darkMode ? 'bg-gray-800 text-white' : 'bg-white'
+        }`}
+      >
+        <div className="flex flex-col items-center text-center">
+          <UserAvatar user={user} className="w-32 h-32" />
+          <h2 className="mt-4 text-3xl font-bold">
+            {user.first_name} {user.last_name}
+          </h2>
+          <a
+            href={`mailto:${user.email}`}
+            className="mt-2 inline-flex items-center space-x-2 text-blue-500 hover:underline"
+          >
+            <Mail size={16} />
+            <span>{user.email}</span>
+          </a>
+        </div>
+
+        {/* Employee Profile */}
+        {(profileDetails.length > 0 || user.manager_id !== undefined) && (
+          <dl className="mt-8 grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+            {profileDetails.map(({ label, value }) => (
+              <div key={label}>
+                <dt className={darkMode ? 'text-gray-400' : 'text-gray-500'}>{label}</dt>
+                <dd className="font-medium">{value}</dd>
+              </div>
+            ))}
+            {user.manager_id !== undefined && (
+              <div>
+                <dt className={darkMode ? 'text-gray-400' : 'text-gray-500'}>Manager</dt>
+                <dd className="font-medium">
+                  <Link to={`/users/${user.manager_id}`} className="text-blue-500 hover:underline">
+                    {manager ? `${manager.first_name} ${manager.last_name}` : `User #${user.manager_id}`}
+                  </Link>
+                </dd>
+              </div>
+            )}
+          </dl>
+        )}
+
+        {/* Support Block */}
+        {support && (
+          <div
+            className={`mt-8 p-4 rounded-lg text-sm ${
+              darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-50 text-gray-600'
+            }`}
+          >
+            <p>{support.text}</p>
+            <a
+              href={support.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="mt-2 inline-block text-blue-500 hover:underline"
+            >
+              {support.url}
+            </a>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default UserDetail;
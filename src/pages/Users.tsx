@@ -1,71 +1,165 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Edit2, Trash2, Search, ChevronDown, X } from 'lucide-react';
+import {
+  Search,
+  ChevronDown,
+  X,
+  UserPlus,
+  CheckSquare,
+  Upload,
+  BookOpen,
+  Infinity as InfinityIcon,
+  LayoutGrid,
+  Table,
+} from 'lucide-react';
 import toast from 'react-hot-toast';
 import LoadingSpinner from '../components/LoadingSpinner';
-import { getUsers, updateUser, deleteUser } from '../utils/api';
-import type { User } from '../types';
+import UserCard from '../components/UserCard';
+import VirtualGrid from '../components/VirtualGrid';
+import UserTable from '../components/UserTable';
+import UserFormModal from '../components/UserFormModal';
+import BulkActionBar from '../components/BulkActionBar';
+import ExportMenu from '../components/ExportMenu';
+import ImportModal from '../components/ImportModal';
+import SavedViewsBar from '../components/SavedViewsBar';
+import type { ImportRow } from '../utils/import';
+import type { BulkProgress, BulkFailure } from '../components/BulkActionBar';
+import { createUser, updateUser, isNetworkError, isUnauthorizedError } from '../utils/api';
+import {
+  usersQueryKey,
+  usersPageFetcher,
+  allUsersQueryKey,
+  allUsersFetcher,
+  loadAllUsers,
+  prefetchUsersPage,
+  addCachedUser,
+  updateCachedUser,
+  removeCachedUser,
+} from '../utils/userQueries';
+import type { User, UserFormValues, SortDirection } from '../types';
 import { useDebounce } from '../hooks/useDebounce';
+import { useQuery } from '../hooks/useQuery';
+import { useSelection } from '../hooks/useSelection';
+import { useUserListParams } from '../hooks/useUserListParams';
+import { useSavedViews } from '../hooks/useSavedViews';
+import { useAuth } from '../hooks/useAuth';
+import { useInfiniteUsers } from '../hooks/useInfiniteUsers';
+import { useScrollRestoration } from '../hooks/useScrollRestoration';
+import { useTablePrefs } from '../hooks/useTablePrefs';
+import { sortUsers } from '../utils/userTable';
+import { PROFILE_FIELDS, USER_FACETS } from '../utils/userProfile';
+import type { FacetId } from '../utils/userProfile';
+import { buildSearchIndex, searchUsers } from '../utils/userSearch';
+import { viewFiltersFromParams } from '../utils/savedViews';
+import type { SavedView } from '../utils/savedViews';
+import { runWithConcurrency } from '../utils/concurrency';
+import { getErrorMessage } from '../utils/apiError';
+import { recordChange } from '../utils/auditLog';
+import { QUEUED_MESSAGE, deleteUserOrQueue, updateUserOrQueue } from '../utils/offlineQueue';
 
 interface UsersProps {
   darkMode: boolean;
 }
 
-type SortDirection = 'asc' | 'desc';
+// How long a delete can still be undone before it is sent to the server
+const UNDO_WINDOW = 5000;
+const BULK_CONCURRENCY = 3;
+
+type ListMode = 'paged' | 'infinite';
+
+const LIST_MODE_KEY = 'usersListMode';
+
+const loadListMode = (): ListMode =>
+  localStorage.getItem(LIST_MODE_KEY) === 'infinite' ? 'infinite' : 'paged';
 
 const Users: React.FC<UsersProps> = ({ darkMode }) => {
-  const [users, setUsers] = useState<User[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
+  const { can } = useAuth();
+  const canSelect = can('user:update') || can('user:delete');
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  // An edit the server turned down, shown again in the reopened form
+  const [rejectedEdit, setRejectedEdit] = useState<{ values: UserFormValues; error: unknown } | null>(null);
+  const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   
-  // Search and filter states
-  const [searchTerm, setSearchTerm] = useState('');
+  // Page, search and filter state lives in the query string
+  const [listParams, updateListParams] = useUserListParams();
+  const {
+    page: currentPage,
+    search: searchTerm,
+    letter: selectedLetter,
+    sort: sortDirection,
+    allPages: searchAllPages,
+  } = listParams;
+  const selectedDomains = useMemo(() => new Set(listParams.domains), [listParams.domains]);
   const [isFilterOpen, setIsFilterOpen] = useState(false);
-  const [selectedLetter, setSelectedLetter] = useState<string>('');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
-  const [selectedDomains, setSelectedDomains] = useState<Set<string>>(new Set());
+  const { views, saveView, renameView, deleteView, importViews } = useSavedViews();
+  const currentFilters = viewFiltersFromParams(listParams);
+  const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
+  const [bulkFailures, setBulkFailures] = useState<BulkFailure[]>([]);
+  
+  const [listMode, setListMode] = useState<ListMode>(loadListMode);
+  const isInfinite = listMode === 'infinite';
+  const {
+    prefs: tablePrefs,
+    setLayout,
+    toggleSort,
+    resizeColumn,
+    moveColumn,
+    toggleColumn,
+    resetColumns,
+  } = useTablePrefs();
+  const isTable = tablePrefs.layout === 'table';
   
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
 
   useEffect(() => {
-    fetchUsers();
-  }, [currentPage]);
+    localStorage.setItem(LIST_MODE_KEY, listMode);
+  }, [listMode]);
+
+  const pageQuery = useQuery(usersQueryKey(currentPage), usersPageFetcher(currentPage), {
+    enabled: !isInfinite && !searchAllPages,
+  });
+  const allUsersQuery = useQuery(allUsersQueryKey, allUsersFetcher, {
+    enabled: !isInfinite && searchAllPages,
+  });
+  // Infinite mode appends pages as the user scrolls and ignores the page/scope params
+  const infiniteUsers = useInfiniteUsers(isInfinite);
+  const { data: usersResponse, ...pagedState } = searchAllPages ? allUsersQuery : pageQuery;
+  const usersError = isInfinite ? infiniteUsers.error : pagedState.error;
+  const loading = isInfinite ? infiniteUsers.isLoading : pagedState.isLoading;
+
+  const users = useMemo(
+    () => (isInfinite ? infiniteUsers.users : usersResponse?.data ?? []),
+    [isInfinite, infiniteUsers.users, usersResponse]
+  );
+
+  useScrollRestoration('usersScroll', !loading, isInfinite);
 
-  // Save filter preferences to localStorage
   useEffect(() => {
-    const savedFilters = {
-      selectedLetter,
-      sortDirection,
-      selectedDomains: Array.from(selectedDomains)
-    };
-    localStorage.setItem('userFilters', JSON.stringify(savedFilters));
-  }, [selectedLetter, sortDirection, selectedDomains]);
+    if (!usersError || isUnauthorizedError(usersError)) return;
+    // The offline banner already explains why the cached pages aren't refreshing
+    if (isNetworkError(usersError) && !navigator.onLine) return;
+    toast.error(`Failed to fetch users: ${getErrorMessage(usersError, 'request failed')}`);
+  }, [usersError]);
 
-  // Load saved filters on mount
+  // Warm the cache for the next page so paging forward is instant
   useEffect(() => {
-    const savedFilters = localStorage.getItem('userFilters');
-    if (savedFilters) {
-      const { selectedLetter, sortDirection, selectedDomains } = JSON.parse(savedFilters);
-      setSelectedLetter(selectedLetter);
-      setSortDirection(sortDirection);
-      setSelectedDomains(new Set(selectedDomains));
+    if (!isInfinite && !searchAllPages && usersResponse && currentPage < usersResponse.total_pages) {
+      prefetchUsersPage(currentPage + 1);
     }
-  }, []);
+  }, [isInfinite, searchAllPages, usersResponse, currentPage]);
 
-  const fetchUsers = async () => {
-    try {
-      const response = await getUsers(currentPage);
-      setUsers(response.data);
-      setTotalPages(response.total_pages);
-    } catch (error) {
-      toast.error('Failed to fetch users');
-    } finally {
-      setLoading(false);
-    }
-  };
+  const setCurrentPage = (page: number) => updateListParams({ page });
+
+  // Filtered results are paginated client-side, so every filter change starts over at page 1
+  const setSearchTerm = (search: string) => updateListParams({ search, page: 1 }, { replace: true });
+  const setSelectedLetter = (letter: string) => updateListParams({ letter, page: 1 });
+  const setSortDirection = (sort: SortDirection) => updateListParams({ sort, page: 1 });
+  const setSearchAllPages = (allPages: boolean) => updateListParams({ allPages, page: 1 });
+
+  const applyView = ({ search, letter, domains, facets, sort }: SavedView) =>
+    updateListParams({ search, letter, domains, facets, sort, page: 1 });
 
   // Extract unique email domains
   const emailDomains = useMemo(() => {
@@ -77,16 +171,32 @@ const Users: React.FC<UsersProps> = ({ darkMode }) => {
     return Array.from(domains);
   }, [users]);
 
-  // Filter and sort users
+  // Values present in the loaded users for each profile facet, plus any already selected
+  const facetOptions = useMemo(
+    () =>
+      USER_FACETS.map(facet => ({
+        facet,
+        values: Array.from(
+          new Set([
+            ...users.map(facet.value).filter((value): value is string => !!value),
+            ...listParams.facets[facet.id],
+          ])
+        ).sort(),
+      })),
+    [users, listParams.facets]
+  );
+
+  const searchIndex = useMemo(() => buildSearchIndex(users), [users]);
+  const searchMatches = useMemo(
+    () => searchUsers(searchIndex, debouncedSearchTerm),
+    [searchIndex, debouncedSearchTerm]
+  );
+
+  // Filter and sort users; with a search, the best matches come first
   const filteredUsers = useMemo(() => {
     return users
       .filter(user => {
-        const fullName = `${user.first_name} ${user.last_name}`.toLowerCase();
-        const email = user.email.toLowerCase();
-        const searchMatch = debouncedSearchTerm
-          ? fullName.includes(debouncedSearchTerm.toLowerCase()) ||
-            email.includes(debouncedSearchTerm.toLowerCase())
-          : true;
+        const searchMatch = !searchMatches || searchMatches.has(user.id);
 
         const letterMatch = selectedLetter
           ? user.first_name.charAt(0).toLowerCase() === selectedLetter.toLowerCase()
@@ -96,52 +206,219 @@ const Users: React.FC<UsersProps> = ({ darkMode }) => {
           ? selectedDomains.has(user.email.split('@')[1])
           : true;
 
-        return searchMatch && letterMatch && domainMatch;
+        const facetMatch = USER_FACETS.every(facet => {
+          const selected = listParams.facets[facet.id];
+          return selected.length === 0 || selected.includes(facet.value(user) ?? '');
+        });
+
+        return searchMatch && letterMatch && domainMatch && facetMatch;
       })
       .sort((a, b) => {
+        const relevance = (searchMatches?.get(b.id)?.score ?? 0) - (searchMatches?.get(a.id)?.score ?? 0);
+        if (relevance !== 0) return relevance;
         const nameA = `${a.first_name} ${a.last_name}`.toLowerCase();
         const nameB = `${b.first_name} ${b.last_name}`.toLowerCase();
         return sortDirection === 'asc'
           ? nameA.localeCompare(nameB)
           : nameB.localeCompare(nameA);
       });
-  }, [users, debouncedSearchTerm, selectedLetter, selectedDomains, sortDirection]);
+  }, [users, searchMatches, selectedLetter, selectedDomains, listParams.facets, sortDirection]);
+
+  // The table's own column sort replaces the name sort while it has any rules
+  const orderedUsers = useMemo(
+    () => (isTable ? sortUsers(filteredUsers, tablePrefs.sort) : filteredUsers),
+    [isTable, filteredUsers, tablePrefs.sort]
+  );
+
+  const pageSize = usersResponse?.per_page ?? 6;
+  const totalPages = searchAllPages
+    ? Math.max(1, Math.ceil(filteredUsers.length / pageSize))
+    : usersResponse?.total_pages ?? 1;
+
+  const visibleUsers = useMemo(
+    () =>
+      searchAllPages && !isInfinite
+        ? orderedUsers.slice((currentPage - 1) * pageSize, currentPage * pageSize)
+        : orderedUsers,
+    [searchAllPages, isInfinite, orderedUsers, currentPage, pageSize]
+  );
+
+  // Deleting the last user on the final page would otherwise leave an empty page
+  useEffect(() => {
+    if (!isInfinite && usersResponse && currentPage > totalPages) {
+      updateListParams({ page: totalPages }, { replace: true });
+    }
+  }, [isInfinite, usersResponse, currentPage, totalPages, updateListParams]);
+
+  // Nothing loaded so far passes the filters, and an empty grid never reaches its
+  // end to ask for more, so keep loading until something matches or every page is in
+  const { hasMore: hasMoreUsers, loadMore: loadMoreUsers } = infiniteUsers;
+  useEffect(() => {
+    if (isInfinite && hasMoreUsers && filteredUsers.length === 0) {
+      loadMoreUsers();
+    }
+  }, [isInfinite, hasMoreUsers, filteredUsers.length, loadMoreUsers]);
+
+  const filteredIds = useMemo(() => orderedUsers.map(user => user.id), [orderedUsers]);
+  const {
+    selectedIds,
+    toggle: toggleSelected,
+    selectAll,
+    deselect,
+    clear: clearSelection,
+  } = useSelection(filteredIds);
+  const selectedUsers = useMemo(
+    () => users.filter(user => selectedIds.has(user.id)),
+    [users, selectedIds]
+  );
+
+  // Only the current page is loaded here, so a selection can't follow the user to another page
+  const isSelectionPageScoped = !isInfinite && !searchAllPages;
+  useEffect(() => {
+    if (isSelectionPageScoped) {
+      clearSelection();
+    }
+  }, [isSelectionPageScoped, currentPage, clearSelection]);
 
   const handleEdit = (user: User) => {
     setSelectedUser(user);
+    setRejectedEdit(null);
     setIsEditModalOpen(true);
   };
 
-  const handleDelete = async (userId: number) => {
-    try {
-      await deleteUser(userId);
-      setUsers(users.filter(user => user.id !== userId));
-      toast.success('User deleted successfully');
-    } catch (error) {
-      toast.error('Failed to delete user');
-    }
+  const handleDelete = (user: User) => {
+    const restore = removeCachedUser(user.id);
+
+    const timer = setTimeout(async () => {
+      try {
+        if (await deleteUserOrQueue(user) === 'synced') {
+          recordChange('delete', user, null);
+        }
+      } catch (error) {
+        restore();
+        toast.error(`Failed to delete ${user.first_name} ${user.last_name}: ${getErrorMessage(error, 'request failed')}`);
+      }
+    }, UNDO_WINDOW);
+
+    toast((t) => (
+      <span className="flex items-center space-x-4">
+        <span>Deleted {user.first_name} {user.last_name}</span>
+        <button
+          onClick={() => {
+            clearTimeout(timer);
+            restore();
+            toast.dismiss(t.id);
+          }}
+          className="font-medium text-blue-600 hover:underline"
+        >
+          Undo
+        </button>
+      </span>
+    ), { duration: UNDO_WINDOW });
   };
 
-  const handleUpdate = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleUpdate = async (values: UserFormValues) => {
     if (!selectedUser) return;
 
+    const previous = {
+      first_name: selectedUser.first_name,
+      last_name: selectedUser.last_name,
+      email: selectedUser.email,
+      avatar: selectedUser.avatar,
+      ...Object.fromEntries(PROFILE_FIELDS.map(field => [field, selectedUser[field]])),
+    };
+    const user = selectedUser;
+    updateCachedUser(user.id, values);
+    setIsEditModalOpen(false);
+
     try {
-      await updateUser(selectedUser.id, {
-        first_name: selectedUser.first_name,
-        last_name: selectedUser.last_name,
-        email: selectedUser.email
-      });
-      setUsers(users.map(user => 
-        user.id === selectedUser.id ? selectedUser : user
-      ));
-      setIsEditModalOpen(false);
+      if (await updateUserOrQueue(user, values) === 'queued') {
+        toast.success(QUEUED_MESSAGE);
+        return;
+      }
+      recordChange('update', user, { ...user, ...values });
       toast.success('User updated successfully');
     } catch (error) {
-      toast.error('Failed to update user');
+      updateCachedUser(user.id, previous);
+      toast.error(`Failed to update user: ${getErrorMessage(error, 'request failed')}`);
+      // Reopen the form with what was typed, and the server's complaints next to the fields
+      setSelectedUser(user);
+      setRejectedEdit({ values, error });
+      setIsEditModalOpen(true);
+    }
+  };
+
+  const handleCreate = async (values: UserFormValues) => {
+    const newUser = await createUser(values);
+    addCachedUser(searchAllPages || isInfinite ? 1 : currentPage, newUser);
+    recordChange('create', null, newUser);
+    setIsCreateModalOpen(false);
+    toast.success('User added successfully');
+  };
+
+  const handleImportRow = async (row: ImportRow) => {
+    if (row.action === 'update' && row.match) {
+      await updateUser(row.match.id, row.values);
+      updateCachedUser(row.match.id, row.values);
+      recordChange('update', row.match, { ...row.match, ...row.values });
+    } else if (row.action === 'create') {
+      const newUser = await createUser(row.values);
+      addCachedUser(1, newUser);
+      recordChange('create', null, newUser);
     }
   };
 
+  const runBulkAction = async (
+    label: string,
+    targets: User[],
+    action: (user: User) => Promise<void>
+  ) => {
+    setBulkFailures([]);
+    setBulkProgress({ label, completed: 0, total: targets.length });
+
+    const results = await runWithConcurrency(targets, BULK_CONCURRENCY, action, (completed) =>
+      setBulkProgress({ label, completed, total: targets.length })
+    );
+
+    const failures = results.filter(result => result.error !== undefined);
+    setBulkProgress(null);
+    setBulkFailures(
+      failures.map(({ item, error }) => ({
+        name: `${item.first_name} ${item.last_name}`,
+        message: error instanceof Error ? error.message : 'Request failed',
+      }))
+    );
+    deselect(results.filter(result => result.error === undefined).map(result => result.item.id));
+
+    const succeeded = results.length - failures.length;
+    if (failures.length === 0) {
+      toast.success(`${label}: ${succeeded} of ${results.length} done`);
+    } else {
+      toast.error(`${label}: ${failures.length} of ${results.length} failed`);
+    }
+  };
+
+  const handleBulkDelete = () => {
+    const count = selectedUsers.length;
+    if (!window.confirm(`Delete ${count} ${count === 1 ? 'user' : 'users'}? This cannot be undone.`)) {
+      return;
+    }
+    runBulkAction('Deleting users', selectedUsers, async (user) => {
+      const result = await deleteUserOrQueue(user);
+      removeCachedUser(user.id);
+      if (result === 'synced') recordChange('delete', user, null);
+    });
+  };
+
+  const handleBulkChangeDomain = (domain: string) => {
+    runBulkAction(`Moving users to @${domain}`, selectedUsers, async (user) => {
+      const email = `${user.email.split('@')[0]}@${domain}`;
+      const result = await updateUserOrQueue(user, { email });
+      updateCachedUser(user.id, { email });
+      if (result === 'synced') recordChange('update', user, { ...user, email });
+    });
+  };
+
   const toggleDomain = (domain: string) => {
     const newDomains = new Set(selectedDomains);
     if (newDomains.has(domain)) {
@@ -149,9 +426,39 @@ const Users: React.FC<UsersProps> = ({ darkMode }) => {
     } else {
       newDomains.add(domain);
     }
-    setSelectedDomains(newDomains);
+    updateListParams({ domains: Array.from(newDomains), page: 1 });
   };
 
+  const toggleFacetValue = (facet: FacetId, value: string) => {
+    const selected = listParams.facets[facet];
+    const values = selected.includes(value)
+      ? selected.filter(existing => existing !== value)
+      : [...selected, value];
+    updateListParams({ facets: { ...listParams.facets, [facet]: values }, page: 1 });
+  };
+
+  const renderUserCard = (user: User) => (
+    <UserCard
+      key={user.id}
+      darkMode={darkMode}
+      user={user}
+      selected={selectedIds.has(user.id)}
+      highlights={searchMatches?.get(user.id)?.highlights}
+      onToggleSelect={canSelect ? toggleSelected : undefined}
+      onEdit={can('user:update') ? handleEdit : undefined}
+      onDelete={can('user:delete') ? handleDelete : undefined}
+    />
+  );
+
+  const modeButtonClass = (active: boolean) =>
+    `flex items-center space-x-1 px-3 py-2 ${
+      active
+        ? 'bg-blue-500 text-white'
+        : darkMode
+        ? 'bg-gray-700 text-white'
+        : 'bg-gray-100'
+    }`;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -179,7 +486,7 @@ const Users: React.FC<UsersProps> = ({ darkMode }) => {
             type="text"
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
-            placeholder="Search users by name or email..."
+            placeholder='Search by name or email, e.g. jnaet, last:weaver, "george edwards", -bluth'
             className={`w-full pl-10 pr-4 py-2 rounded-lg border ${
               darkMode
                 ? 'bg-gray-700 border-gray-600 text-white'
@@ -190,22 +497,108 @@ const Users: React.FC<UsersProps> = ({ darkMode }) => {
 
         {/* Filter Toggle */}
         <div className="relative">
-          <motion.button
-            whileHover={{ scale: 1.02 }}
-            whileTap={{ scale: 0.98 }}
-            onClick={() => setIsFilterOpen(!isFilterOpen)}
-            className={`flex items-center space-x-2 px-4 py-2 rounded-lg ${
-              darkMode
-                ? 'bg-gray-700 text-white'
-                : 'bg-gray-100'
-            }`}
-          >
-            <span>Filters</span>
-            <ChevronDown
-              className={`transform transition-transform ${isFilterOpen ? 'rotate-180' : ''}`}
-              size={16}
-            />
-          </motion.button>
+          <div className="flex items-center justify-between">
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => setIsFilterOpen(!isFilterOpen)}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-lg ${
+                darkMode
+                  ? 'bg-gray-700 text-white'
+                  : 'bg-gray-100'
+              }`}
+            >
+              <span>Filters</span>
+              <ChevronDown
+                className={`transform transition-transform ${isFilterOpen ? 'rotate-180' : ''}`}
+                size={16}
+              />
+            </motion.button>
+            <div className="flex rounded-lg overflow-hidden ml-2 text-sm" role="group" aria-label="List mode">
+              <button
+                onClick={() => setListMode('paged')}
+                aria-pressed={!isInfinite}
+                className={modeButtonClass(!isInfinite)}
+              >
+                <BookOpen size={16} />
+                <span>Pages</span>
+              </button>
+              <button
+                onClick={() => setListMode('infinite')}
+                aria-pressed={isInfinite}
+                className={modeButtonClass(isInfinite)}
+              >
+                <InfinityIcon size={16} />
+                <span>Infinite</span>
+              </button>
+            </div>
+            <div className="flex rounded-lg overflow-hidden mr-auto ml-2 text-sm" role="group" aria-label="Layout">
+              <button
+                onClick={() => setLayout('cards')}
+                aria-pressed={!isTable}
+                className={modeButtonClass(!isTable)}
+              >
+                <LayoutGrid size={16} />
+                <span>Cards</span>
+              </button>
+              <button
+                onClick={() => setLayout('table')}
+                aria-pressed={isTable}
+                className={modeButtonClass(isTable)}
+              >
+                <Table size={16} />
+                <span>Table</span>
+              </button>
+            </div>
+            <div className="flex items-center space-x-2">
+              <ExportMenu
+                darkMode={darkMode}
+                filteredUsers={filteredUsers}
+                loadAllUsers={() => loadAllUsers()}
+              />
+              {can('user:import') && (
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => setIsImportModalOpen(true)}
+                  className={`flex items-center space-x-2 px-4 py-2 rounded-lg ${
+                    darkMode ? 'bg-gray-700 text-white' : 'bg-gray-100'
+                  }`}
+                >
+                  <Upload size={16} />
+                  <span>Import</span>
+                </motion.button>
+              )}
+              {can('user:create') && (
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => setIsCreateModalOpen(true)}
+                  className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600"
+                >
+                  <UserPlus size={16} />
+                  <span>Add User</span>
+                </motion.button>
+              )}
+            </div>
+          </div>
+          {canSelect && (
+            <div className="mt-3 flex items-center space-x-3 text-sm">
+              <button
+                onClick={selectAll}
+                disabled={filteredUsers.length === 0}
+                className="flex items-center space-x-1 text-blue-500 hover:underline disabled:opacity-50"
+              >
+                <CheckSquare size={14} />
+                <span>Select all {filteredUsers.length} filtered</span>
+              </button>
+              {selectedIds.size > 0 && (
+                <button onClick={clearSelection} className="text-gray-500 hover:underline">
+                  Clear selection
+                </button>
+              )}
+            </div>
+          )}
 
           {/* Filter Panel */}
           <AnimatePresence>
@@ -220,6 +613,39 @@ const Users: React.FC<UsersProps> = ({ darkMode }) => {
                     : 'bg-white'
                 }`}
               >
+                {/* Search Scope */}
+                {!isInfinite && (
+                  <div className="mb-4">
+                    <h3 className="text-sm font-medium mb-2">Search Scope</h3>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => setSearchAllPages(true)}
+                        className={`px-4 py-2 rounded-lg ${
+                          searchAllPages
+                            ? 'bg-blue-500 text-white'
+                            : darkMode
+                            ? 'bg-gray-600 text-white'
+                            : 'bg-gray-100'
+                        }`}
+                      >
+                        All Users
+                      </button>
+                      <button
+                        onClick={() => setSearchAllPages(false)}
+                        className={`px-4 py-2 rounded-lg ${
+                          !searchAllPages
+                            ? 'bg-blue-500 text-white'
+                            : darkMode
+                            ? 'bg-gray-600 text-white'
+                            : 'bg-gray-100'
+                        }`}
+                      >
+                        Current Page
+                      </button>
+                    </div>
+                  </div>
+                )}
+
                 {/* First Letter Filter */}
                 <div className="mb-4">
                   <h3 className="text-sm font-medium mb-2">Filter by First Letter</h3>
@@ -301,167 +727,206 @@ const Users: React.FC<UsersProps> = ({ darkMode }) => {
                     ))}
                   </div>
                 </div>
+
+                {/* Profile Facets */}
+                {facetOptions.map(({ facet, values }) => values.length > 0 && (
+                  <div key={facet.id} className="mt-4">
+                    <h3 className="text-sm font-medium mb-2">Filter by {facet.label}</h3>
+                    <div className="flex flex-wrap gap-2">
+                      {values.map((value) => {
+                        const isSelected = listParams.facets[facet.id].includes(value);
+                        return (
+                          <motion.button
+                            key={value}
+                            whileHover={{ scale: 1.05 }}
+                            whileTap={{ scale: 0.95 }}
+                            onClick={() => toggleFacetValue(facet.id, value)}
+                            className={`px-3 py-1 rounded-full flex items-center ${
+                              isSelected
+                                ? 'bg-blue-500 text-white'
+                                : darkMode
+                                ? 'bg-gray-600 text-white'
+                                : 'bg-gray-100'
+                            }`}
+                          >
+                            {facet.format ? facet.format(value) : value}
+                            {isSelected && <X size={14} className="ml-2" />}
+                          </motion.button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
               </motion.div>
             )}
           </AnimatePresence>
         </div>
       </motion.div>
 
+      {/* Saved Views */}
+      <SavedViewsBar
+        darkMode={darkMode}
+        views={views}
+        currentFilters={currentFilters}
+        onApply={applyView}
+        onSave={(name) => saveView(name, currentFilters)}
+        onRename={renameView}
+        onDelete={deleteView}
+        onImport={importViews}
+      />
+
       {/* Users Grid */}
-      <motion.div
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"
-      >
-        <AnimatePresence>
-          {filteredUsers.length > 0 ? (
-            filteredUsers.map((user) => (
+      {isTable ? (
+        <UserTable
+          darkMode={darkMode}
+          users={visibleUsers}
+          prefs={tablePrefs}
+          selectedIds={selectedIds}
+          onToggleSelect={canSelect ? toggleSelected : undefined}
+          onEdit={can('user:update') ? handleEdit : undefined}
+          onDelete={can('user:delete') ? handleDelete : undefined}
+          onSort={toggleSort}
+          onResize={resizeColumn}
+          onMove={moveColumn}
+          onToggleColumn={toggleColumn}
+          onResetColumns={resetColumns}
+        />
+      ) : isInfinite ? (
+        visibleUsers.length > 0 ? (
+          <VirtualGrid
+            items={visibleUsers}
+            getKey={(user) => user.id}
+            renderItem={renderUserCard}
+            onEndReached={infiniteUsers.loadMore}
+          />
+        ) : !infiniteUsers.hasMore && (
+          <p className={`text-center py-8 text-lg ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+            No users found matching your search criteria
+          </p>
+        )
+      ) : (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"
+        >
+          <AnimatePresence>
+            {visibleUsers.length > 0 ? (
+              visibleUsers.map(renderUserCard)
+            ) : (
               <motion.div
-                key={user.id}
-                layout
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -20 }}
-                className={`p-6 rounded-xl shadow-lg ${
-                  darkMode
-                    ? 'bg-gray-800 text-white'
-                    : 'bg-white'
-                }`}
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="col-span-full text-center py-8"
               >
-                <div className="flex items-center space-x-4">
-                  <img
-                    src={user.avatar}
-                    alt={`${user.first_name} ${user.last_name}`}
-                    className="w-16 h-16 rounded-full"
-                  />
-                  <div className="flex-1">
-                    <h3 className="text-lg font-semibold">
-                      {user.first_name} {user.last_name}
-                    </h3>
-                    <p className="text-sm text-gray-500 dark:text-gray-400">
-                      {user.email}
-                    </p>
-                  </div>
-                </div>
-                <div className="mt-4 flex justify-end space-x-2">
-                  <motion.button
-                    whileHover={{ scale: 1.05 }}
-                    whileTap={{ scale: 0.95 }}
-                    onClick={() => handleEdit(user)}
-                    className="p-2 text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900 rounded-lg transition-colors"
-                  >
-                    <Edit2 size={18} />
-                  </motion.button>
-                  <motion.button
-                    whileHover={{ scale: 1.05 }}
-                    whileTap={{ scale: 0.95 }}
-                    onClick={() => handleDelete(user.id)}
-                    className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900 rounded-lg transition-colors"
-                  >
-                    <Trash2 size={18} />
-                  </motion.button>
-                </div>
+                <p className={`text-lg ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                  No users found matching your search criteria
+                </p>
               </motion.div>
-            ))
-          ) : (
-            <motion.div
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              className="col-span-full text-center py-8"
-            >
-              <p className={`text-lg ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-                No users found matching your search criteria
-              </p>
-            </motion.div>
-          )}
-        </AnimatePresence>
-      </motion.div>
+            )}
+          </AnimatePresence>
+        </motion.div>
+      )}
 
       {/* Pagination */}
-      <div className="mt-8 flex justify-center space-x-2">
-        {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
-          <motion.button
-            key={page}
-            whileHover={{ scale: 1.1 }}
-            whileTap={{ scale: 0.9 }}
-            onClick={() => setCurrentPage(page)}
-            className={`px-4 py-2 rounded-lg ${
-              currentPage === page
-                ? 'bg-blue-500 text-white'
-                : darkMode
-                ? 'bg-gray-800 text-white'
-                : 'bg-white text-gray-800'
-            } shadow-md transition-colors`}
-          >
-            {page}
-          </motion.button>
-        ))}
-      </div>
+      {isInfinite ? (
+        <div className="mt-8 flex justify-center text-sm text-gray-500">
+          {infiniteUsers.error ? (
+            <button onClick={infiniteUsers.retry} className="text-blue-500 hover:underline">
+              Couldn't load more users. Retry
+            </button>
+          ) : infiniteUsers.isFetching ? (
+            <LoadingSpinner />
+          ) : infiniteUsers.hasMore ? (
+            // The table isn't virtualized, so it loads further pages on request; an empty
+            // grid gets the button too while matches are still being looked for
+            (isTable || visibleUsers.length === 0) && (
+              <button onClick={infiniteUsers.loadMore} className="text-blue-500 hover:underline">
+                Load more
+              </button>
+            )
+          ) : users.length > 0 ? (
+            <span>All {users.length} users loaded</span>
+          ) : null}
+        </div>
+      ) : (
+        <div className="mt-8 flex justify-center space-x-2">
+          {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
+            <motion.button
+              key={page}
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+              onClick={() => setCurrentPage(page)}
+              className={`px-4 py-2 rounded-lg ${
+                currentPage === page
+                  ? 'bg-blue-500 text-white'
+                  : darkMode
+                  ? 'bg-gray-800 text-white'
+                  : 'bg-white text-gray-800'
+              } shadow-md transition-colors`}
+            >
+              {page}
+            </motion.button>
+          ))}
+        </div>
+      )}
 
       {/* Edit Modal */}
       {isEditModalOpen && selectedUser && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4">
-          <motion.div
-            initial={{ opacity: 0, scale: 0.9 }}
-            animate={{ opacity: 1, scale: 1 }}
-            exit={{ opacity: 0, scale: 0.9 }}
-            className={`w-full max-w-md p-6 rounded-xl shadow-xl ${
-              darkMode ? 'bg-gray-800' : 'bg-white'
-            }`}
-          >
-            <h2 className="text-2xl font-bold mb-4">Edit User</h2>
-            <form onSubmit={handleUpdate} className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium mb-1">First Name</label>
-                <input
-                  type="text"
-                  value={selectedUser.first_name}
-                  onChange={(e) =>
-                    setSelectedUser({ ...selectedUser, first_name: e.target.value })
-                  }
-                  className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium mb-1">Last Name</label>
-                <input
-                  type="text"
-                  value={selectedUser.last_name}
-                  onChange={(e) =>
-                    setSelectedUser({ ...selectedUser, last_name: e.target.value })
-                  }
-                  className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium mb-1">Email</label>
-                <input
-                  type="email"
-                  value={selectedUser.email}
-                  onChange={(e) =>
-                    setSelectedUser({ ...selectedUser, email: e.target.value })
-                  }
-                  className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-              <div className="flex justify-end space-x-2">
-                <button
-                  type="button"
-                  onClick={() => setIsEditModalOpen(false)}
-                  className="px-4 py-2 text-gray-600 hover:text-gray-800"
-                >
-                  Cancel
-                </button>
-                <button
-                  type="submit"
-                  className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600"
-                >
-                  Save Changes
-                </button>
-              </div>
-            </form>
-          </motion.div>
-        </div>
+        <UserFormModal
+          darkMode={darkMode}
+          title="Edit User"
+          submitLabel="Save Changes"
+          initialValues={selectedUser}
+          rejectedSubmit={rejectedEdit ?? undefined}
+          people={users}
+          userId={selectedUser.id}
+          onSubmit={handleUpdate}
+          onClose={() => {
+            setIsEditModalOpen(false);
+            setRejectedEdit(null);
+          }}
+        />
+      )}
+
+      {/* Import Modal */}
+      {isImportModalOpen && (
+        <ImportModal
+          darkMode={darkMode}
+          loadDirectory={() => loadAllUsers()}
+          importRow={handleImportRow}
+          onClose={() => setIsImportModalOpen(false)}
+        />
+      )}
+
+      {/* Bulk Actions */}
+      <AnimatePresence>
+        {(selectedUsers.length > 0 || bulkProgress || bulkFailures.length > 0) && (
+          <BulkActionBar
+            darkMode={darkMode}
+            selectedCount={selectedUsers.length}
+            scopedToPage={isSelectionPageScoped}
+            progress={bulkProgress}
+            failures={bulkFailures}
+            onClear={clearSelection}
+            onDelete={can('user:delete') ? handleBulkDelete : undefined}
+            onChangeDomain={can('user:update') ? handleBulkChangeDomain : undefined}
+            onDismissFailures={() => setBulkFailures([])}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Create Modal */}
+      {isCreateModalOpen && (
+        <UserFormModal
+          darkMode={darkMode}
+          title="Add User"
+          submitLabel="Add User"
+          initialValues={{ first_name: '', last_name: '', email: '' }}
+          people={users}
+          onSubmit={handleCreate}
+          onClose={() => setIsCreateModalOpen(false)}
+        />
       )}
     </div>
   );
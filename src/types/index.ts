@@ -1,19 +1,58 @@
-export interface User {
+export type EmploymentStatus = 'active' | 'on-leave' | 'terminated';
+
+// Employee details Reqres doesn't know about; kept locally when the backend can't store them
+export interface UserProfile {
+  department?: string;
+  job_title?: string;
+  phone?: string;
+  location?: string;
+  // ISO date, YYYY-MM-DD
+  start_date?: string;
+  manager_id?: number;
+  status?: EmploymentStatus;
+}
+
+export interface User extends UserProfile {
   id: number;
   email: string;
   first_name: string;
   last_name: string;
   avatar: string;
+  createdAt?: string;
 }
 
+export type UserFormValues = Pick<User, 'first_name' | 'last_name' | 'email'> & Partial<Pick<User, 'avatar'>> & UserProfile;
+
 export interface LoginResponse {
   token: string;
 }
 
+export interface RegisterResponse {
+  id: number;
+  token: string;
+}
+
 export interface UsersResponse {
   page: number;
   per_page: number;
   total: number;
   total_pages: number;
   data: User[];
-}
\ No newline at end of file
+}
+
+export interface SupportInfo {
+  url: string;
+  text: string;
+}
+
+export interface UserResponse {
+  data: User;
+  support: SupportInfo;
+}
+
+export interface CreateUserResponse extends UserFormValues {
+  id: string;
+  createdAt: string;
+}
+
+export type SortDirection = 'asc' | 'desc';
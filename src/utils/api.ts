@@ -1,39 +1,55 @@
-import axios from 'axios';
-import type { User } from '../types';
-
-const api = axios.create({
-  baseURL: 'https://reqres.in/api',
-});
-
-api.interceptors.request.use((config) => {
-  const token = localStorage.getItem('token');
-  if (token) {
-    config.headers.Authorization = `Bearer ${token}`;
-  }
-  return config;
-});
-
-export const login = async (email: string, password: string) => {
-  try {
-    const response = await api.post('/login', { email, password });
-    return response.data;
-  } catch (error) {
-    throw new Error('Invalid credentials');
-  }
+import { isApiError } from './apiError';
+import { userRepository } from './userRepository';
+import { pickProfile, removeProfile, saveProfile, withProfile, withProfiles } from './userProfile';
+import { removeAvatar, saveAvatar, withAvatar, withAvatars } from './avatarStore';
+import type {
+  LoginResponse,
+  RegisterResponse,
+  User,
+  UserFormValues,
+  UserResponse,
+  UsersResponse,
+} from '../types';
+
+export const login = (email: string, password: string): Promise<LoginResponse> =>
+  userRepository.login(email, password);
+
+export const register = (email: string, password: string): Promise<RegisterResponse> =>
+  userRepository.register(email, password);
+
+export const getUsers = async (page: number, signal?: AbortSignal): Promise<UsersResponse> => {
+  const response = await userRepository.listUsers(page, signal);
+  return { ...response, data: withAvatars(withProfiles(response.data)) };
 };
 
-export const getUsers = async (page: number) => {
-  const response = await api.get(`/users?page=${page}`);
-  return response.data;
+export const getUser = async (id: number, signal?: AbortSignal): Promise<UserResponse> => {
+  const response = await userRepository.getUser(id, signal);
+  return { ...response, data: withAvatar(withProfile(response.data)) };
+};
+
+export const isNotFoundError = (error: unknown) => isApiError(error, 'not-found');
+
+export const isUnauthorizedError = (error: unknown) => isApiError(error, 'unauthorized');
+
+// The device is offline or the server is unreachable; the request may be retried later
+export const isNetworkError = (error: unknown) => isApiError(error, 'network');
+
+// Profile fields and photos are sent along too, and also kept locally in case the backend drops them
+export const createUser = async (data: UserFormValues): Promise<User> => {
+  const user = await userRepository.createUser(data);
+  saveProfile(user.id, pickProfile(data));
+  saveAvatar(user.id, data.avatar);
+  return withAvatar(withProfile(user));
 };
 
 export const updateUser = async (id: number, data: Partial<User>) => {
-  const response = await api.put(`/users/${id}`, data);
-  return response.data;
+  await userRepository.updateUser(id, data);
+  saveProfile(id, pickProfile(data));
+  saveAvatar(id, data.avatar);
 };
 
 export const deleteUser = async (id: number) => {
-  await api.delete(`/users/${id}`);
+  await userRepository.deleteUser(id);
+  removeProfile(id);
+  removeAvatar(id);
 };
-
-export default api;
\ No newline at end of file
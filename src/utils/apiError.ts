@@ -0,0 +1,72 @@
+import axios from 'axios';
+
+export type ApiErrorKind = 'network' | 'timeout' | 'unauthorized' | 'validation' | 'not-found' | 'server';
+
+const DEFAULT_MESSAGES: Record<ApiErrorKind, string> = {
+  network: "Can't reach the server. Check your connection",
+  timeout: 'The server took too long to respond',
+  unauthorized: 'You are not allowed to do that',
+  validation: 'The server rejected the request',
+  'not-found': 'Not found',
+  server: 'The server ran into a problem. Try again later',
+};
+
+interface ApiErrorOptions {
+  status?: number;
+  // Where a response failed validation, e.g. `data[2].email: expected a string`
+  issues?: string[];
+  // Messages the server attached to individual request fields, keyed by field name
+  fields?: Record<string, string>;
+}
+
+// Every failure from a repository. `message` is the server's own message when it sent one.
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly issues: string[];
+  readonly fields: Record<string, string>;
+
+  constructor(kind: ApiErrorKind, message?: string, options: ApiErrorOptions = {}) {
+    super(message || DEFAULT_MESSAGES[kind]);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.issues = options.issues ?? [];
+    this.fields = options.fields ?? {};
+  }
+}
+
+export const isApiError = (error: unknown, kind?: ApiErrorKind): error is ApiError =>
+  error instanceof ApiError && (!kind || error.kind === kind);
+
+const kindForStatus = (status: number): ApiErrorKind => {
+  if (status === 401 || status === 403) return 'unauthorized';
+  if (status === 404) return 'not-found';
+  if (status >= 500) return 'server';
+  return 'validation';
+};
+
+export const apiErrorForStatus = (status: number, message?: string, fields?: Record<string, string>) =>
+  new ApiError(kindForStatus(status), message, { status, fields });
+
+// Reqres reports failures as `{ error: string }`
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+  if (!axios.isAxiosError<{ error?: unknown }>(error)) {
+    return new ApiError('server');
+  }
+
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new ApiError('timeout');
+  }
+  if (!error.response) {
+    return new ApiError('network');
+  }
+
+  const { status, data } = error.response;
+  const message = typeof data?.error === 'string' ? data.error : undefined;
+  return apiErrorForStatus(status, message);
+};
+
+export const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error && error.message ? error.message : fallback;
@@ -0,0 +1,104 @@
+import toast from 'react-hot-toast';
+import { getSession } from './session';
+import { PROFILE_FIELDS } from './userProfile';
+import type { User } from '../types';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface FieldChange {
+  field: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface AuditEntry {
+  id?: number;
+  actor: string;
+  action: AuditAction;
+  targetId: number;
+  targetName: string;
+  timestamp: number;
+  changes: FieldChange[];
+}
+
+const DB_NAME = 'employwise';
+const DB_VERSION = 1;
+const STORE = 'audit';
+
+const AUDITED_FIELDS: (keyof User)[] = ['first_name', 'last_name', 'email', 'avatar', ...PROFILE_FIELDS];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('timestamp', 'timestamp');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const toValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return null;
+  // Uploaded photos are whole images inlined as data URLs; log a short stand-in
+  if (typeof value === 'string' && value.startsWith('data:')) return `uploaded image (${value.length} chars)`;
+  return String(value);
+};
+
+export const diffUsers = (before: Partial<User> | null, after: Partial<User> | null): FieldChange[] =>
+  AUDITED_FIELDS.map(field => ({
+    field,
+    before: toValue(before?.[field]),
+    after: toValue(after?.[field]),
+  })).filter(change => change.before !== change.after);
+
+export const addAuditEntry = async (entry: AuditEntry) => {
+  const db = await openDb();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE, 'readwrite');
+    transaction.objectStore(STORE).add(entry);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Newest first
+export const listAuditEntries = async (): Promise<AuditEntry[]> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE).objectStore(STORE).index('timestamp').getAll();
+    request.onsuccess = () => resolve((request.result as AuditEntry[]).reverse());
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Records a change made by the signed-in user. Auditing must never break the
+// change itself, so a storage failure is only reported.
+export const recordChange = (
+  action: AuditAction,
+  before: Partial<User> | null,
+  after: Partial<User> | null
+) => {
+  const target = (after ?? before) as Partial<User>;
+  const entry: AuditEntry = {
+    actor: getSession()?.email ?? 'unknown',
+    action,
+    targetId: target.id ?? 0,
+    targetName: `${target.first_name ?? ''} ${target.last_name ?? ''}`.trim(),
+    timestamp: Date.now(),
+    changes: diffUsers(before, after),
+  };
+
+  addAuditEntry(entry).catch(() => {
+    toast.error(`The change to ${entry.targetName || `user #${entry.targetId}`} was saved but not added to the audit log`);
+  });
+};
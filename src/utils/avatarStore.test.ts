@@ -0,0 +1,40 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import toast from 'react-hot-toast';
+import { saveAvatar, withAvatar } from './avatarStore';
+import type { User } from '../types';
+
+vi.mock('react-hot-toast', () => ({ default: { error: vi.fn() } }));
+
+const STOCK = 'https://reqres.in/img/faces/2-image.jpg';
+const UPLOAD = 'data:image/jpeg;base64,AAAA';
+const janet: User = { id: 2, email: 'janet.weaver@reqres.in', first_name: 'Janet', last_name: 'Weaver', avatar: STOCK };
+
+describe('saveAvatar', () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it("doesn't keep a copy of the backend's own photo", () => {
+    saveAvatar(janet.id, STOCK);
+    expect(localStorage.getItem('userAvatars')).toBeNull();
+  });
+
+  it('keeps uploads over what the backend sends, and their removal', () => {
+    saveAvatar(janet.id, UPLOAD);
+    expect(withAvatar(janet).avatar).toBe(UPLOAD);
+
+    saveAvatar(janet.id, '');
+    expect(withAvatar(janet).avatar).toBe('');
+  });
+
+  it('warns instead of throwing when storage is full', () => {
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+
+    expect(() => saveAvatar(janet.id, UPLOAD)).not.toThrow();
+    expect(toast.error).toHaveBeenCalled();
+  });
+});
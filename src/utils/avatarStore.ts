@@ -0,0 +1,60 @@
+import toast from 'react-hot-toast';
+import type { User } from '../types';
+
+// Photos uploaded here, keyed by user id. Unlike profile fields these win over
+// what the backend sends, since Reqres keeps serving its stock avatar after an
+// edit. An empty string means an uploaded photo was removed again.
+const AVATARS_KEY = 'userAvatars';
+
+const loadAvatars = (): Record<string, string> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(AVATARS_KEY) ?? '{}');
+    return typeof stored === 'object' && stored !== null && !Array.isArray(stored) ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+const storeAvatars = (avatars: Record<string, string>) => {
+  localStorage.setItem(AVATARS_KEY, JSON.stringify(avatars));
+};
+
+const isUpload = (avatar: string) => avatar.startsWith('data:');
+
+// Only new uploads are kept, plus the removal of one. Every edit sends the
+// avatar along, so anything else is the backend's own photo and needs no copy.
+// The backend has already accepted the change by now, so running out of
+// storage only gets a warning.
+export const saveAvatar = (id: number, avatar: string | undefined) => {
+  if (avatar === undefined) return;
+  const avatars = loadAvatars();
+  if (avatars[id] === avatar) return;
+  if (!isUpload(avatar)) {
+    if (avatar === '' && id in avatars) {
+      storeAvatars({ ...avatars, [id]: '' });
+    } else {
+      removeAvatar(id);
+    }
+    return;
+  }
+
+  try {
+    storeAvatars({ ...avatars, [id]: avatar });
+  } catch {
+    toast.error("The photo was saved, but there's no room left in this browser to keep a copy");
+  }
+};
+
+export const removeAvatar = (id: number) => {
+  const avatars = loadAvatars();
+  if (!(id in avatars)) return;
+  delete avatars[id];
+  storeAvatars(avatars);
+};
+
+export const withAvatars = (users: User[]): User[] => {
+  const avatars = loadAvatars();
+  return users.map(user => (user.id in avatars ? { ...user, avatar: avatars[user.id] } : user));
+};
+
+export const withAvatar = (user: User) => withAvatars([user])[0];
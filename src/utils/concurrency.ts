@@ -0,0 +1,35 @@
+export interface TaskResult<T> {
+  item: T;
+  error?: unknown;
+}
+
+// Runs `task` over every item with at most `limit` in flight. Failures are collected
+// per item instead of rejecting, so one bad request doesn't abort the batch.
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>,
+  onProgress?: (completed: number) => void
+): Promise<TaskResult<T>[]> => {
+  const results: TaskResult<T>[] = new Array(items.length);
+  let nextIndex = 0;
+  let completed = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      const item = items[index];
+      try {
+        await task(item);
+        results[index] = { item };
+      } catch (error) {
+        results[index] = { item, error };
+      }
+      completed++;
+      onProgress?.(completed);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { escapeCsvValue, toCsv } from './export';
+import { buildImportPlan } from './import';
+import type { User } from '../types';
+
+describe('escapeCsvValue', () => {
+  it.each(['=SUM(A1:A2)', '+cmd|calc', '-2+3*cmd', '@SUM(A1)'])('guards the formula %s', (value) => {
+    expect(escapeCsvValue(value)).toBe(`'${value}`);
+  });
+
+  it.each(['+44 20 7946 0000', '+1 (555) 010-0199', '-12', '-3.5'])('leaves %s as it is', (value) => {
+    expect(escapeCsvValue(value)).toBe(value);
+  });
+
+  it('quotes separators, quotes and line breaks', () => {
+    expect(escapeCsvValue('Weaver, Janet')).toBe('"Weaver, Janet"');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue('two\nlines')).toBe('"two\nlines"');
+  });
+});
+
+describe('export and import round trip', () => {
+  const exported: User[] = [
+    { id: 1, email: 'george.bluth@reqres.in', first_name: '=HYPERLINK("x")', last_name: 'Bluth', avatar: '' },
+    { id: 2, email: 'janet.weaver@reqres.in', first_name: "'Janet", last_name: '-Weaver', avatar: '' },
+    { id: 3, email: 'emma.wong@reqres.in', first_name: 'Emma', last_name: '+44', avatar: '' },
+  ];
+
+  it('reads back exactly what was written', () => {
+    const csv = toCsv(exported, ['id', 'email', 'first_name', 'last_name']);
+    const plan = buildImportPlan(csv, []);
+
+    expect(plan.map(row => row.values)).toEqual(
+      exported.map(({ email, first_name, last_name }) => ({ email, first_name, last_name }))
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import type { User } from '../types';
+
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_FIELDS: { key: keyof User; label: string }[] = [
+  { key: 'id', label: 'ID' },
+  { key: 'first_name', label: 'First Name' },
+  { key: 'last_name', label: 'Last Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'avatar', label: 'Avatar' },
+  { key: 'createdAt', label: 'Created At' },
+  { key: 'job_title', label: 'Job Title' },
+  { key: 'department', label: 'Department' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'location', label: 'Location' },
+  { key: 'start_date', label: 'Start Date' },
+  { key: 'manager_id', label: 'Manager ID' },
+  { key: 'status', label: 'Status' },
+];
+
+// Spreadsheets evaluate cells starting with these as formulas. Plain numbers and
+// phone numbers like `+44 20 7946 0000` or `-12` are left alone: they can't run
+// anything, and a guard apostrophe would show up in them.
+export const needsFormulaGuard = (text: string) =>
+  /^[=+\-@\t\r]/.test(text) && !/^[+-]?[\d\s().-]+$/.test(text);
+
+// Quotes values containing separators, quotes or line breaks (RFC 4180), and
+// neutralises leading formula characters so spreadsheets don't evaluate them.
+export const escapeCsvValue = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  if (needsFormulaGuard(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T extends object>(rows: T[], fields: (keyof T)[]) => {
+  const header = fields.map(field => escapeCsvValue(field)).join(',');
+  const lines = rows.map(row => fields.map(field => escapeCsvValue(row[field])).join(','));
+  return [header, ...lines].join('\r\n');
+};
+
+export const toJson = <T extends object>(rows: T[], fields: (keyof T)[]) => {
+  const picked = rows.map(row =>
+    Object.fromEntries(fields.map(field => [field, row[field] ?? null]))
+  );
+  return JSON.stringify(picked, null, 2);
+};
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const exportUsers = (users: User[], fields: (keyof User)[], format: ExportFormat) => {
+  const date = new Date().toISOString().slice(0, 10);
+  if (format === 'csv') {
+    // The BOM makes Excel pick up UTF-8 names correctly
+    downloadFile(`users-${date}.csv`, `\uFEFF${toCsv(users, fields)}`, 'text/csv;charset=utf-8');
+  } else {
+    downloadFile(`users-${date}.json`, toJson(users, fields), 'application/json');
+  }
+};
@@ -0,0 +1,71 @@
+import { isApiError } from './apiError';
+import { validateEmail, validatePassword } from './validation';
+
+// Returns an error message, or '' when the value is fine
+export type FieldRule<T> = (value: unknown, values: T) => string;
+
+// Rules run in order and the first message wins
+export type FormSchema<T> = Partial<Record<keyof T, FieldRule<T>[]>>;
+
+export type FormErrors<T> = Partial<Record<keyof T, string>>;
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && !value.trim());
+
+export const required = (message: string) => (value: unknown) => (isBlank(value) ? message : '');
+
+export const email = () => (value: unknown) => validateEmail(typeof value === 'string' ? value.trim() : '');
+
+export const password = () => (value: unknown) => validatePassword(typeof value === 'string' ? value : '');
+
+// Optional fields only have to match when something was entered
+export const pattern = (regex: RegExp, message: string) => (value: unknown) =>
+  isBlank(value) || regex.test(String(value)) ? '' : message;
+
+export const matchesField = <T>(field: keyof T, message: string): FieldRule<T> => (value, values) =>
+  value === values[field] ? '' : message;
+
+export const validateValues = <T>(schema: FormSchema<T>, values: T): FormErrors<T> => {
+  const errors: FormErrors<T> = {};
+  (Object.keys(schema) as (keyof T)[]).forEach((field) => {
+    for (const rule of schema[field] ?? []) {
+      const message = rule(values[field], values);
+      if (message) {
+        errors[field] = message;
+        break;
+      }
+    }
+  });
+  return errors;
+};
+
+export const hasErrors = <T>(errors: FormErrors<T>) => Object.values(errors).some(Boolean);
+
+const normalize = (value: unknown) => (isBlank(value) ? '' : value);
+
+// Blank strings and missing values count as the same thing, so clearing a
+// field that was never set doesn't make the form dirty
+export const isFormDirty = <T extends object>(initial: T, values: T) => {
+  const fields = new Set([...Object.keys(initial), ...Object.keys(values)] as (keyof T)[]);
+  return Array.from(fields).some(field => normalize(initial[field]) !== normalize(values[field]));
+};
+
+const fieldLabel = (field: string) => field.replace(/_/g, ' ').toLowerCase();
+
+// Puts a rejected request's message next to the field it is about. Uses the
+// server's per-field errors when it sent them; otherwise a validation message
+// that names exactly one field (Reqres' "Missing password") is assigned to it.
+export const fieldErrorsFromError = <T>(error: unknown, fields: (keyof T)[]): FormErrors<T> => {
+  if (!isApiError(error, 'validation')) return {};
+
+  const errors: FormErrors<T> = {};
+  fields.forEach((field) => {
+    const message = error.fields[field as string];
+    if (message) errors[field] = message;
+  });
+  if (hasErrors(errors)) return errors;
+
+  const message = error.message.toLowerCase();
+  const mentioned = fields.filter(field => message.includes(fieldLabel(field as string)));
+  return mentioned.length === 1 ? { [mentioned[0]]: error.message } as FormErrors<T> : {};
+};
@@ -0,0 +1,58 @@
+// Avatars are stored inline as data URLs, so keep them small
+export const AVATAR_SIZE = 256;
+const AVATAR_QUALITY = 0.85;
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Square region of the source image, in its own pixels
+export interface CropArea {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("That file isn't an image this browser can read"));
+    image.src = src;
+  });
+
+export const readImageFile = async (file: File) => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Choose an image file');
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new Error('Images must be smaller than 10 MB');
+  }
+
+  // A data URL rather than an object URL, so the crop preview can keep showing it
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Could not read the file'));
+    reader.readAsDataURL(file);
+  });
+  return loadImage(dataUrl);
+};
+
+// Draws the crop onto a canvas no bigger than AVATAR_SIZE and encodes it as a JPEG
+export const renderAvatar = (image: HTMLImageElement, crop: CropArea) => {
+  const size = Math.min(AVATAR_SIZE, Math.round(crop.size));
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error("This browser can't resize images");
+  }
+  // JPEG has no transparency; without a background it would turn black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, size, size);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, crop.x, crop.y, crop.size, crop.size, 0, 0, size, size);
+
+  return canvas.toDataURL('image/jpeg', AVATAR_QUALITY);
+};
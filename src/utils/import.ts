@@ -0,0 +1,152 @@
+import { validateEmail } from './validation';
+import { needsFormulaGuard } from './export';
+import type { User, UserFormValues } from '../types';
+
+export type ImportAction = 'create' | 'update' | 'skip';
+
+export interface ImportRow {
+  line: number;
+  id?: number;
+  values: UserFormValues;
+  action: ImportAction;
+  match?: User;
+  errors: string[];
+  note?: string;
+}
+
+export interface ImportSummary {
+  create: number;
+  update: number;
+  skip: number;
+}
+
+// Parses RFC 4180 CSV: quoted fields may contain commas, escaped quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+// Accepts both the raw field names and the labels our own export writes
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// Undoes the formula guard added on export, and only where export would have added it
+const unescapeValue = (value: string) => {
+  const text = value.trim();
+  return text.startsWith("'") && needsFormulaGuard(text.slice(1)) ? text.slice(1) : text;
+};
+
+export const buildImportPlan = (text: string, directory: User[]): ImportRow[] => {
+  const [headerRow, ...dataRows] = parseCsv(text);
+  if (!headerRow) {
+    throw new Error('The file is empty');
+  }
+
+  const headers = headerRow.map(normalizeHeader);
+  const column = (name: string) => headers.indexOf(name);
+  const columns = {
+    id: column('id'),
+    email: column('email'),
+    first_name: column('first_name'),
+    last_name: column('last_name'),
+  };
+
+  if (columns.email === -1 || columns.first_name === -1 || columns.last_name === -1) {
+    throw new Error('The file needs email, first_name and last_name columns');
+  }
+
+  const byId = new Map(directory.map(user => [user.id, user]));
+  const byEmail = new Map(directory.map(user => [user.email.toLowerCase(), user]));
+  const seenEmails = new Map<string, number>();
+
+  return dataRows.map((cells, index) => {
+    const line = index + 2;
+    const cell = (columnIndex: number) => (columnIndex === -1 ? '' : unescapeValue(cells[columnIndex] ?? ''));
+    const values: UserFormValues = {
+      first_name: cell(columns.first_name),
+      last_name: cell(columns.last_name),
+      email: cell(columns.email),
+    };
+    const errors: string[] = [];
+
+    const rawId = cell(columns.id);
+    const id = rawId ? Number(rawId) : undefined;
+    if (rawId && (id === undefined || !Number.isInteger(id) || id <= 0)) {
+      errors.push(`Invalid id "${rawId}"`);
+    }
+
+    const emailError = validateEmail(values.email);
+    if (emailError) errors.push(emailError);
+    if (!values.first_name) errors.push('First name is required');
+    if (!values.last_name) errors.push('Last name is required');
+
+    const emailKey = values.email.toLowerCase();
+    const duplicateOf = seenEmails.get(emailKey);
+    if (values.email && duplicateOf !== undefined) {
+      errors.push(`Duplicate of row ${duplicateOf}`);
+    } else if (values.email) {
+      seenEmails.set(emailKey, line);
+    }
+
+    if (errors.length > 0) {
+      return { line, id, values, action: 'skip' as const, errors };
+    }
+
+    const match = (id !== undefined ? byId.get(id) : undefined) ?? byEmail.get(emailKey);
+    if (!match) {
+      return { line, id, values, action: 'create' as const, errors };
+    }
+
+    const unchanged =
+      match.first_name === values.first_name &&
+      match.last_name === values.last_name &&
+      match.email === values.email;
+
+    return unchanged
+      ? { line, id, values, action: 'skip' as const, match, errors, note: 'No changes' }
+      : { line, id, values, action: 'update' as const, match, errors };
+  });
+};
+
+export const summarizeImport = (rows: ImportRow[]): ImportSummary =>
+  rows.reduce<ImportSummary>(
+    (summary, row) => ({ ...summary, [row.action]: summary[row.action] + 1 }),
+    { create: 0, update: 0, skip: 0 }
+  );
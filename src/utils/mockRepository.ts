@@ -0,0 +1,132 @@
+import { apiErrorForStatus } from './apiError';
+import { sleep } from './retry';
+import { parseUser, parseUserResponse, parseUsersResponse } from './responseValidation';
+import type { UserRepository } from './userRepository';
+import type { User } from '../types';
+
+const MOCK_USERS_KEY = 'mockUsers';
+const PER_PAGE = 6;
+// Enough delay for loading states to show up in demos
+const LATENCY = 300;
+
+const SUPPORT = {
+  url: 'https://github.com/SACHU11223/EmployWise-Assignment',
+  text: 'This directory is served by the in-browser mock backend.',
+};
+
+// Same people the Reqres API serves, so either data source looks familiar
+const SEED_USERS: User[] = [
+  ['george.bluth', 'George', 'Bluth'],
+  ['janet.weaver', 'Janet', 'Weaver'],
+  ['emma.wong', 'Emma', 'Wong'],
+  ['eve.holt', 'Eve', 'Holt'],
+  ['charles.morris', 'Charles', 'Morris'],
+  ['tracey.ramos', 'Tracey', 'Ramos'],
+  ['michael.lawson', 'Michael', 'Lawson'],
+  ['lindsay.ferguson', 'Lindsay', 'Ferguson'],
+  ['tobias.funke', 'Tobias', 'Funke'],
+  ['byron.fields', 'Byron', 'Fields'],
+  ['george.edwards', 'George', 'Edwards'],
+  ['rachel.howell', 'Rachel', 'Howell'],
+].map(([handle, first_name, last_name], index) => ({
+  id: index + 1,
+  email: `${handle}@reqres.in`,
+  first_name,
+  last_name,
+  avatar: `https://reqres.in/img/faces/${index + 1}-image.jpg`,
+}));
+
+const loadUsers = (): User[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(MOCK_USERS_KEY) ?? 'null');
+    return Array.isArray(stored) ? stored : SEED_USERS;
+  } catch {
+    return SEED_USERS;
+  }
+};
+
+const saveUsers = (users: User[]) => {
+  localStorage.setItem(MOCK_USERS_KEY, JSON.stringify(users));
+};
+
+const delay = (signal?: AbortSignal) => sleep(LATENCY, signal);
+
+const findUser = (users: User[], id: number) => {
+  const user = users.find(candidate => candidate.id === id);
+  if (!user) throw apiErrorForStatus(404, 'User not found');
+  return user;
+};
+
+// Emails double as sign-in names, so two people can't share one
+const assertEmailAvailable = (users: User[], email: string | undefined, id?: number) => {
+  const taken = email !== undefined &&
+    users.some(user => user.id !== id && user.email.toLowerCase() === email.toLowerCase());
+  if (taken) {
+    throw apiErrorForStatus(409, 'Email is already in use', { email: 'Another user already has this email' });
+  }
+};
+
+// Accounts are the directory itself: any listed email can sign in with any password
+const authenticate = async (email: string, password: string) => {
+  await delay();
+  if (!email) throw apiErrorForStatus(400, 'Missing email or username');
+  if (!password) throw apiErrorForStatus(400, 'Missing password');
+  const user = loadUsers().find(candidate => candidate.email.toLowerCase() === email.toLowerCase());
+  if (!user) throw apiErrorForStatus(400, 'user not found');
+  return { id: user.id, token: `mock-${user.id}-${Date.now().toString(36)}` };
+};
+
+// Responses go through the same parsers as Reqres ones, so stored data the app
+// can't use fails the same way a broken server would
+export const mockRepository: UserRepository = {
+  login: async (email, password) => {
+    const { token } = await authenticate(email, password);
+    return { token };
+  },
+
+  register: (email, password) => authenticate(email, password),
+
+  listUsers: async (page, signal) => {
+    await delay(signal);
+    const users = loadUsers();
+    return parseUsersResponse({
+      page,
+      per_page: PER_PAGE,
+      total: users.length,
+      total_pages: Math.max(1, Math.ceil(users.length / PER_PAGE)),
+      data: users.slice((page - 1) * PER_PAGE, page * PER_PAGE),
+    });
+  },
+
+  getUser: async (id, signal) => {
+    await delay(signal);
+    return parseUserResponse({ data: findUser(loadUsers(), id), support: SUPPORT });
+  },
+
+  createUser: async (data) => {
+    await delay();
+    const users = loadUsers();
+    assertEmailAvailable(users, data.email);
+    const user: User = {
+      ...parseUser({ ...data, id: Math.max(0, ...users.map(existing => existing.id)) + 1 }, 'response'),
+      createdAt: new Date().toISOString(),
+    };
+    saveUsers([...users, user]);
+    return user;
+  },
+
+  updateUser: async (id, data) => {
+    await delay();
+    const users = loadUsers();
+    findUser(users, id);
+    assertEmailAvailable(users, data.email, id);
+    saveUsers(users.map(user => (user.id === id ? { ...user, ...data, id } : user)));
+  },
+
+  deleteUser: async (id) => {
+    await delay();
+    const users = loadUsers();
+    findUser(users, id);
+    saveUsers(users.filter(user => user.id !== id));
+  },
+};
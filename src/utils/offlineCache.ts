@@ -0,0 +1,40 @@
+import { getQueriesData, hydrateQuery, onQueryChange } from './queryCache';
+import type { QueryKey } from './queryCache';
+
+const OFFLINE_CACHE_KEY = 'offlineUsersCache';
+const PERSISTED_PREFIXES: QueryKey[] = [['users'], ['user']];
+const WRITE_DELAY = 500;
+
+interface PersistedQuery {
+  key: QueryKey;
+  data: unknown;
+  updatedAt: number;
+}
+
+// Loads the last-known user pages so the directory can be read without a network
+export const restoreOfflineCache = () => {
+  try {
+    const persisted = JSON.parse(localStorage.getItem(OFFLINE_CACHE_KEY) ?? '[]') as PersistedQuery[];
+    persisted.forEach(({ key, data, updatedAt }) => hydrateQuery(key, data, updatedAt));
+  } catch {
+    localStorage.removeItem(OFFLINE_CACHE_KEY);
+  }
+};
+
+const writeOfflineCache = () => {
+  const persisted = PERSISTED_PREFIXES.flatMap(prefix => getQueriesData(prefix));
+  try {
+    localStorage.setItem(OFFLINE_CACHE_KEY, JSON.stringify(persisted));
+  } catch {
+    // Storage is full; keep the previous snapshot rather than failing the update
+  }
+};
+
+export const persistOfflineCache = () => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return onQueryChange((key) => {
+    if (!PERSISTED_PREFIXES.some(prefix => key[0] === prefix[0])) return;
+    clearTimeout(timer);
+    timer = setTimeout(writeOfflineCache, WRITE_DELAY);
+  });
+};
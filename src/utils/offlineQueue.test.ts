@@ -0,0 +1,92 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError } from './apiError';
+import type { User } from '../types';
+
+// Checked by kind rather than class: this mock outlives module resets, ApiError doesn't
+vi.mock('./api', () => ({
+  updateUser: vi.fn().mockResolvedValue(undefined),
+  deleteUser: vi.fn().mockResolvedValue(undefined),
+  isNetworkError: (error: unknown) => error instanceof Error && (error as ApiError).kind === 'network',
+}));
+vi.mock('./auditLog', () => ({ recordChange: vi.fn() }));
+
+const janet: User = {
+  id: 2,
+  email: 'janet.weaver@reqres.in',
+  first_name: 'Janet',
+  last_name: 'Weaver',
+  avatar: '',
+  manager_id: 1,
+};
+
+const setOnline = (onLine: boolean) => {
+  Object.defineProperty(navigator, 'onLine', { value: onLine, configurable: true });
+};
+
+describe('offline queue', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    setOnline(true);
+    vi.useRealTimers();
+  });
+
+  it('still clears a field after the queue was reloaded from storage', async () => {
+    setOnline(false);
+    const { updateUserOrQueue } = await import('./offlineQueue');
+    await expect(updateUserOrQueue(janet, { manager_id: undefined })).resolves.toBe('queued');
+
+    // A fresh module reads the queue back from localStorage, as after a page reload
+    vi.resetModules();
+    setOnline(true);
+    const { replayQueue, getQueue } = await import('./offlineQueue');
+    const { updateUser } = await import('./api');
+    await replayQueue();
+
+    expect(updateUser).toHaveBeenCalledTimes(1);
+    const [id, changes] = vi.mocked(updateUser).mock.calls[0];
+    expect(id).toBe(2);
+    expect(changes).toHaveProperty('manager_id', undefined);
+    expect(getQueue()).toHaveLength(0);
+  });
+
+  it('keeps retrying while the browser says it is online but the server is unreachable', async () => {
+    vi.useFakeTimers();
+    const { updateUserOrQueue, replayQueue, getQueue, isReplaying } = await import('./offlineQueue');
+    const { updateUser } = await import('./api');
+    vi.mocked(updateUser)
+      .mockRejectedValueOnce(new ApiError('network'))
+      .mockRejectedValueOnce(new ApiError('network'));
+
+    await expect(updateUserOrQueue(janet, { last_name: 'Weaver-Holt' })).resolves.toBe('queued');
+    await replayQueue();
+    expect(updateUser).toHaveBeenCalledTimes(2);
+    expect(getQueue()).toHaveLength(1);
+    expect(isReplaying()).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(10 * 1000);
+
+    expect(updateUser).toHaveBeenCalledTimes(3);
+    expect(vi.mocked(updateUser).mock.calls[2]).toEqual([2, { last_name: 'Weaver-Holt' }]);
+    expect(getQueue()).toHaveLength(0);
+  });
+
+  it("only retries the signed-in user's rejected changes", async () => {
+    localStorage.setItem('session', JSON.stringify({ token: 'token', email: 'janet.weaver@reqres.in' }));
+    const rejected = { action: 'delete', userId: 2, before: janet, queuedAt: 0, conflict: 'Not found' };
+    localStorage.setItem('offlineQueue', JSON.stringify([
+      { ...rejected, id: 'mine', actor: 'janet.weaver@reqres.in' },
+      { ...rejected, id: 'theirs', actor: 'george.bluth@reqres.in' },
+    ]));
+    const { retryConflicts, getQueue } = await import('./offlineQueue');
+
+    await retryConflicts();
+
+    expect(getQueue()).toEqual([expect.objectContaining({ id: 'theirs', conflict: 'Not found' })]);
+  });
+});
@@ -0,0 +1,207 @@
+import { deleteUser, isNetworkError, updateUser } from './api';
+import { getErrorMessage } from './apiError';
+import { recordChange } from './auditLog';
+import { invalidateQueries } from './queryCache';
+import { backoff } from './retry';
+import { getSession } from './session';
+import type { User } from '../types';
+
+export type QueuedAction = 'update' | 'delete';
+
+export interface QueuedMutation {
+  id: string;
+  action: QueuedAction;
+  userId: number;
+  changes?: Partial<User>;
+  // Fields `changes` clears by setting them to undefined. JSON drops those keys,
+  // so without this list a queued "remove manager" would be lost on reload.
+  cleared?: (keyof User)[];
+  // Snapshot taken when the change was made, for the audit log and conflict display
+  before: User;
+  actor: string;
+  queuedAt: number;
+  conflict?: string;
+}
+
+export type MutationResult = 'synced' | 'queued';
+
+export const QUEUED_MESSAGE = 'Saved offline; will sync when back online';
+
+const QUEUE_KEY = 'offlineQueue';
+// The browser can report itself online while the server is still out of reach
+// (e.g. behind a captive portal), so a stalled replay is retried on a timer
+const RETRY_BASE_DELAY = 5 * 1000;
+const RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+const listeners = new Set<() => void>();
+let queue: QueuedMutation[] = loadQueue();
+let replaying: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+let retryAttempt = 0;
+
+function loadQueue(): QueuedMutation[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(QUEUE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+const notify = () => {
+  listeners.forEach(listener => listener());
+};
+
+const setQueue = (next: QueuedMutation[]) => {
+  queue = next;
+  localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  notify();
+};
+
+export const subscribeQueue = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Stable between changes, so it can back useSyncExternalStore
+export const getQueue = () => queue;
+
+export const isReplaying = () => replaying !== null;
+
+const currentActor = () => getSession()?.email ?? 'unknown';
+
+// Another user's pending changes stay queued until they sign back in on this device
+export const getPendingMutations = () => queue.filter(mutation => mutation.actor === currentActor());
+
+type NewMutation = Omit<QueuedMutation, 'id' | 'actor' | 'queuedAt' | 'cleared'>;
+
+const enqueue = (mutation: NewMutation) => {
+  const cleared = Object.entries(mutation.changes ?? {})
+    .filter(([, value]) => value === undefined)
+    .map(([field]) => field as keyof User);
+  setQueue([
+    ...queue,
+    {
+      ...mutation,
+      ...(cleared.length > 0 && { cleared }),
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      actor: currentActor(),
+      queuedAt: Date.now(),
+    },
+  ]);
+};
+
+// The changes as they were made, with cleared fields back as undefined
+const changesOf = (mutation: Pick<QueuedMutation, 'changes' | 'cleared'>): Partial<User> => ({
+  ...Object.fromEntries((mutation.cleared ?? []).map(field => [field, undefined])),
+  ...mutation.changes,
+});
+
+const send = (mutation: Pick<QueuedMutation, 'action' | 'userId' | 'changes' | 'cleared'>) =>
+  mutation.action === 'delete'
+    ? deleteUser(mutation.userId)
+    : updateUser(mutation.userId, changesOf(mutation));
+
+const nextUnsynced = () => getPendingMutations().find(mutation => !mutation.conflict);
+
+// Sends the change now when possible. While offline, or while earlier changes
+// are still waiting, it is queued instead so replay keeps the original order.
+const sendOrQueue = async (mutation: NewMutation): Promise<MutationResult> => {
+  if (!navigator.onLine || nextUnsynced()) {
+    enqueue(mutation);
+    if (navigator.onLine) replayQueue();
+    return 'queued';
+  }
+  try {
+    await send(mutation);
+    return 'synced';
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    enqueue(mutation);
+    return 'queued';
+  }
+};
+
+export const updateUserOrQueue = (user: User, changes: Partial<User>) =>
+  sendOrQueue({ action: 'update', userId: user.id, changes, before: user });
+
+export const deleteUserOrQueue = (user: User) =>
+  sendOrQueue({ action: 'delete', userId: user.id, before: user });
+
+const markConflict = (id: string, message: string) => {
+  setQueue(queue.map(mutation => (mutation.id === id ? { ...mutation, conflict: message } : mutation)));
+};
+
+const removeMutation = (id: string) => {
+  setQueue(queue.filter(mutation => mutation.id !== id));
+};
+
+// Resolves to whether the replay stopped on a change it couldn't reach the server with
+const runReplay = async () => {
+  // Re-read the queue each time so changes queued mid-replay are picked up in order
+  for (let mutation = nextUnsynced(); mutation; mutation = nextUnsynced()) {
+    try {
+      await send(mutation);
+      removeMutation(mutation.id);
+      recordChange(
+        mutation.action,
+        mutation.before,
+        mutation.action === 'delete' ? null : { ...mutation.before, ...changesOf(mutation) }
+      );
+    } catch (error) {
+      // Still unreachable: stop and keep the rest in order for the next attempt
+      if (isNetworkError(error)) return true;
+      markConflict(mutation.id, getErrorMessage(error, 'The server rejected this change'));
+    }
+  }
+  return false;
+};
+
+const scheduleRetry = () => {
+  const delay = Math.min(backoff(retryAttempt, RETRY_BASE_DELAY), RETRY_MAX_DELAY);
+  retryAttempt++;
+  retryTimer = setTimeout(() => {
+    retryTimer = undefined;
+    replayQueue();
+  }, delay);
+};
+
+// Replays the signed-in user's queued changes in the order they were made.
+// Concurrent calls share one run. While the browser is online, a run that
+// can't reach the server tries again later with a growing delay; going
+// offline leaves it to the next `online` event.
+export const replayQueue = () => {
+  if (!replaying) {
+    clearTimeout(retryTimer);
+    retryTimer = undefined;
+    replaying = runReplay()
+      .then((stalled) => {
+        if (stalled && navigator.onLine) {
+          scheduleRetry();
+        } else {
+          retryAttempt = 0;
+        }
+      })
+      .finally(() => {
+        replaying = null;
+        notify();
+      });
+    notify();
+  }
+  return replaying;
+};
+
+export const retryConflicts = () => {
+  const actor = currentActor();
+  setQueue(queue.map(mutation => (mutation.actor === actor ? { ...mutation, conflict: undefined } : mutation)));
+  return replayQueue();
+};
+
+// Dropping a change leaves the optimistic copy in the cache, so refetch the truth
+export const discardMutation = (id: string) => {
+  removeMutation(id);
+  invalidateQueries(['users']);
+  invalidateQueries(['user']);
+};
@@ -0,0 +1,92 @@
+import type { User } from '../types';
+
+export interface OrgNode {
+  user: User;
+  reports: OrgNode[];
+}
+
+export interface OrgChart {
+  // People without a manager, plus anyone whose chain had to be cut (see below)
+  roots: OrgNode[];
+  // manager_id points at someone who isn't in the directory
+  orphanIds: Set<number>;
+  // Each cycle once, in reporting order; its members are shown as roots
+  cycles: User[][];
+}
+
+const byName = (a: User, b: User) =>
+  `${a.first_name} ${a.last_name}`.localeCompare(`${b.first_name} ${b.last_name}`);
+
+// Follows manager links from every user; a chain that comes back to a user it
+// has already passed through is a cycle
+const findCycles = (users: User[], byId: Map<number, User>) => {
+  const done = new Set<number>();
+  const cycles: User[][] = [];
+
+  users.forEach((start) => {
+    const path: User[] = [];
+    const onPath = new Map<number, number>();
+    let current: User | undefined = start;
+
+    while (current && !done.has(current.id)) {
+      if (onPath.has(current.id)) {
+        cycles.push(path.slice(onPath.get(current.id)));
+        break;
+      }
+      onPath.set(current.id, path.length);
+      path.push(current);
+      current = current.manager_id === undefined ? undefined : byId.get(current.manager_id);
+    }
+    path.forEach(user => done.add(user.id));
+  });
+
+  return cycles;
+};
+
+export const buildOrgChart = (users: User[]): OrgChart => {
+  const byId = new Map(users.map(user => [user.id, user]));
+  const cycles = findCycles(users, byId);
+  const inCycle = new Set(cycles.flat().map(user => user.id));
+  const orphanIds = new Set(
+    users
+      .filter(user => user.manager_id !== undefined && !byId.has(user.manager_id))
+      .map(user => user.id)
+  );
+
+  const nodes = new Map(users.map(user => [user.id, { user, reports: [] } as OrgNode]));
+  const roots: OrgNode[] = [];
+
+  users.forEach((user) => {
+    const node = nodes.get(user.id) as OrgNode;
+    const manager = user.manager_id === undefined ? undefined : nodes.get(user.manager_id);
+    if (!manager || inCycle.has(user.id)) {
+      roots.push(node);
+    } else {
+      manager.reports.push(node);
+    }
+  });
+
+  const sortTree = (list: OrgNode[]) => {
+    list.sort((a, b) => byName(a.user, b.user));
+    list.forEach(node => sortTree(node.reports));
+  };
+  sortTree(roots);
+
+  return { roots, orphanIds, cycles };
+};
+
+// True when `managerId` reports (directly or not) to `userId`, or is them
+export const wouldCreateCycle = (users: User[], userId: number, managerId: number) => {
+  const byId = new Map(users.map(user => [user.id, user]));
+  const seen = new Set<number>();
+  let current: number | undefined = managerId;
+  while (current !== undefined && !seen.has(current)) {
+    if (current === userId) return true;
+    seen.add(current);
+    current = byId.get(current)?.manager_id;
+  }
+  return false;
+};
+
+export const countReports = (node: OrgNode): number =>
+  node.reports.reduce((total, report) => total + 1 + countReports(report), 0);
@@ -0,0 +1,34 @@
+export type Role = 'viewer' | 'editor' | 'admin';
+
+export type Permission = 'user:create' | 'user:update' | 'user:delete' | 'user:import' | 'audit:view';
+
+export const ROLES: Role[] = ['viewer', 'editor', 'admin'];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  editor: ['user:create', 'user:update', 'user:import'],
+  admin: ['user:create', 'user:update', 'user:import', 'user:delete', 'audit:view'],
+};
+
+// Local role assignments, so access control works without backend support.
+// Keys are full email addresses or `@domain` entries covering a whole domain;
+// exact addresses win over domains.
+export const ROLE_ASSIGNMENTS: Record<string, Role> = {
+  'eve.holt@reqres.in': 'admin',
+  '@reqres.in': 'editor',
+};
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+export const DEFAULT_ROLE: Role = isRole(import.meta.env.VITE_DEFAULT_ROLE)
+  ? import.meta.env.VITE_DEFAULT_ROLE
+  : 'viewer';
+
+export const resolveRole = (email: string): Role => {
+  const normalized = email.trim().toLowerCase();
+  const domain = normalized.split('@')[1];
+  return ROLE_ASSIGNMENTS[normalized] ?? (domain && ROLE_ASSIGNMENTS[`@${domain}`]) ?? DEFAULT_ROLE;
+};
+
+export const hasPermission = (role: Role | null | undefined, permission: Permission) =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
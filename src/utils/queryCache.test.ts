@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  clearQueries,
+  fetchQuery,
+  getQueryData,
+  invalidateQueries,
+  subscribeQuery,
+} from './queryCache';
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  signal?: AbortSignal;
+}
+
+const deferred = <T>(): Deferred<T> => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+// Each call returns the next pending response, so tests decide the order they arrive in
+const controlledFetcher = <T>() => {
+  const calls: Deferred<T>[] = [];
+  const fetcher = (signal: AbortSignal) => {
+    const call = deferred<T>();
+    call.signal = signal;
+    calls.push(call);
+    return call.promise;
+  };
+  return { calls, fetcher };
+};
+
+describe('fetchQuery', () => {
+  afterEach(() => {
+    clearQueries();
+  });
+
+  it('keeps a late page 1 response out of page 2', async () => {
+    const page1 = controlledFetcher<string>();
+    const page2 = controlledFetcher<string>();
+
+    const first = fetchQuery(['users', 'page', 1], page1.fetcher);
+    const second = fetchQuery(['users', 'page', 2], page2.fetcher);
+
+    page2.calls[0].resolve('page 2');
+    await second;
+    page1.calls[0].resolve('page 1');
+    await first;
+
+    expect(getQueryData(['users', 'page', 2])).toBe('page 2');
+    expect(getQueryData(['users', 'page', 1])).toBe('page 1');
+  });
+
+  it('ignores a superseded request that resolves after its replacement', async () => {
+    const key = ['users', 'page', 1];
+    const { calls, fetcher } = controlledFetcher<string>();
+    const unsubscribe = subscribeQuery(key, () => {});
+
+    const stale = fetchQuery(key, fetcher);
+    invalidateQueries(['users']);
+    expect(calls).toHaveLength(2);
+    expect(calls[0].signal?.aborted).toBe(true);
+
+    calls[1].resolve('fresh');
+    await Promise.resolve();
+    calls[0].resolve('stale');
+    await stale;
+
+    expect(getQueryData(key)).toBe('fresh');
+    unsubscribe();
+  });
+
+  it('aborts the request once the last subscriber leaves', () => {
+    const key = ['users', 'page', 3];
+    const { calls, fetcher } = controlledFetcher<string>();
+    const unsubscribe = subscribeQuery(key, () => {});
+
+    fetchQuery(key, fetcher);
+    unsubscribe();
+
+    expect(calls[0].signal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,184 @@
+export type QueryKey = readonly unknown[];
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface QueryState<T> {
+  data?: T;
+  error?: unknown;
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+interface QueryEntry<T> {
+  key: QueryKey;
+  state: QueryState<T>;
+  listeners: Set<() => void>;
+  promise?: Promise<T | undefined>;
+  controller?: AbortController;
+  fetcher?: QueryFetcher<T>;
+}
+
+const entries = new Map<string, QueryEntry<unknown>>();
+const globalListeners = new Set<(key: QueryKey) => void>();
+
+export const hashQueryKey = (key: QueryKey) => JSON.stringify(key);
+
+const getEntry = <T>(key: QueryKey): QueryEntry<T> => {
+  const hash = hashQueryKey(key);
+  let entry = entries.get(hash) as QueryEntry<T> | undefined;
+  if (!entry) {
+    entry = {
+      key,
+      state: { updatedAt: 0, isFetching: false },
+      listeners: new Set(),
+    };
+    entries.set(hash, entry as QueryEntry<unknown>);
+  }
+  return entry;
+};
+
+const setState = <T>(entry: QueryEntry<T>, patch: Partial<QueryState<T>>) => {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach(listener => listener());
+  globalListeners.forEach(listener => listener(entry.key));
+};
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey) =>
+  prefix.every((part, index) => key[index] === part);
+
+// Notified after any entry changes, e.g. to persist the cache
+export const onQueryChange = (listener: (key: QueryKey) => void) => {
+  globalListeners.add(listener);
+  return () => {
+    globalListeners.delete(listener);
+  };
+};
+
+const cancelEntry = <T>(entry: QueryEntry<T>) => {
+  if (!entry.controller) return;
+  entry.controller.abort();
+  entry.controller = undefined;
+  entry.promise = undefined;
+  setState(entry, { isFetching: false });
+};
+
+export const getQueryState = <T>(key: QueryKey): QueryState<T> => getEntry<T>(key).state;
+
+export const getQueryData = <T>(key: QueryKey): T | undefined => getEntry<T>(key).state.data;
+
+// The in-flight request is aborted once nobody is watching the entry any more
+export const subscribeQuery = (key: QueryKey, listener: () => void) => {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size === 0) {
+      cancelEntry(entry);
+    }
+  };
+};
+
+export const isQueryStale = (key: QueryKey, staleTime: number) => {
+  const { data, updatedAt } = getEntry(key).state;
+  return data === undefined || Date.now() - updatedAt > staleTime;
+};
+
+// Concurrent calls for the same key share one request
+export const fetchQuery = <T>(key: QueryKey, fetcher: QueryFetcher<T>): Promise<T | undefined> => {
+  const entry = getEntry<T>(key);
+  if (entry.promise) {
+    return entry.promise;
+  }
+
+  const controller = new AbortController();
+  const isCurrent = () => entry.controller === controller;
+  entry.fetcher = fetcher;
+
+  const promise = fetcher(controller.signal).then(
+    (data) => {
+      if (isCurrent()) {
+        entry.controller = undefined;
+        entry.promise = undefined;
+        setState(entry, { data, error: undefined, updatedAt: Date.now(), isFetching: false });
+      }
+      return data;
+    },
+    (error) => {
+      if (isCurrent()) {
+        entry.controller = undefined;
+        entry.promise = undefined;
+        setState(entry, { error, isFetching: false });
+      }
+      return undefined;
+    }
+  );
+
+  entry.controller = controller;
+  entry.promise = promise;
+  setState(entry, { isFetching: true });
+  return promise;
+};
+
+export const prefetchQuery = <T>(key: QueryKey, fetcher: QueryFetcher<T>, staleTime = 30000) => {
+  if (isQueryStale(key, staleTime)) {
+    fetchQuery(key, fetcher);
+  }
+};
+
+export const setQueryData = <T>(key: QueryKey, updater: (data: T | undefined) => T | undefined) => {
+  const entry = getEntry<T>(key);
+  setState(entry, { data: updater(entry.state.data), updatedAt: Date.now() });
+};
+
+// Applies the updater to every cached entry whose key starts with the given prefix
+export const updateQueries = <T>(prefix: QueryKey, updater: (data: T, key: QueryKey) => T) => {
+  entries.forEach((entry) => {
+    if (matchesPrefix(entry.key, prefix) && entry.state.data !== undefined) {
+      setState(entry as QueryEntry<T>, { data: updater(entry.state.data as T, entry.key) });
+    }
+  });
+};
+
+export const removeQuery = (key: QueryKey) => {
+  const entry = entries.get(hashQueryKey(key));
+  if (!entry) return;
+  cancelEntry(entry);
+  setState(entry, { data: undefined, error: undefined, updatedAt: 0 });
+};
+
+export const clearQueries = () => {
+  entries.forEach((entry) => {
+    cancelEntry(entry);
+    setState(entry, { data: undefined, error: undefined, updatedAt: 0 });
+  });
+};
+
+// Marks matching entries stale and refetches the ones currently on screen
+export const invalidateQueries = (prefix: QueryKey) => {
+  entries.forEach((entry) => {
+    if (!matchesPrefix(entry.key, prefix)) return;
+    entry.state = { ...entry.state, updatedAt: 0 };
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      cancelEntry(entry);
+      fetchQuery(entry.key, entry.fetcher);
+    }
+  });
+};
+
+export const getQueriesData = <T>(prefix: QueryKey) => {
+  const matches: { key: QueryKey; data: T; updatedAt: number }[] = [];
+  entries.forEach((entry) => {
+    if (matchesPrefix(entry.key, prefix) && entry.state.data !== undefined) {
+      matches.push({ key: entry.key, data: entry.state.data as T, updatedAt: entry.state.updatedAt });
+    }
+  });
+  return matches;
+};
+
+// Seeds an entry with previously persisted data without marking it fresh
+export const hydrateQuery = <T>(key: QueryKey, data: T, updatedAt: number) => {
+  const entry = getEntry<T>(key);
+  if (entry.state.data === undefined) {
+    entry.state = { ...entry.state, data, updatedAt };
+  }
+};
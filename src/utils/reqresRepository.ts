@@ -0,0 +1,98 @@
+import axios from 'axios';
+import type { AxiosRequestConfig } from 'axios';
+import { expireSession, getActiveSession } from './session';
+import { toApiError } from './apiError';
+import { isTransientError, withRetry } from './retry';
+import {
+  parseCreateUserResponse,
+  parseLoginResponse,
+  parseRegisterResponse,
+  parseUserResponse,
+  parseUsersResponse,
+} from './responseValidation';
+import type { UserRepository } from './userRepository';
+
+const setting = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export const API_TIMEOUT = setting(import.meta.env.VITE_API_TIMEOUT_MS, 10000);
+export const API_RETRIES = setting(import.meta.env.VITE_API_RETRIES, 2);
+const RETRY_BASE_DELAY = 500;
+
+export const http = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || 'https://reqres.in/api',
+  timeout: API_TIMEOUT,
+});
+
+http.interceptors.request.use((config) => {
+  const session = getActiveSession();
+  if (session) {
+    config.headers.Authorization = `Bearer ${session.token}`;
+  }
+  return config;
+});
+
+// Failures leave here as ApiErrors; cancellations pass through untouched.
+// A rejected token means the session is over, whatever the local timers say.
+http.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    if (axios.isCancel(error)) return Promise.reject(error);
+    const apiError = toApiError(error);
+    if (apiError.status === 401) {
+      expireSession();
+    }
+    return Promise.reject(apiError);
+  }
+);
+
+// GETs are safe to repeat, so they are retried with backoff. Writes are sent once:
+// a timed-out POST may still have been applied.
+const request = async <T>(config: AxiosRequestConfig, parse: (data: unknown) => T): Promise<T> => {
+  const send = async () => parse((await http.request<unknown>(config)).data);
+  const isIdempotent = !config.method || config.method.toLowerCase() === 'get';
+  if (!isIdempotent) return send();
+
+  return withRetry(send, {
+    retries: API_RETRIES,
+    baseDelay: RETRY_BASE_DELAY,
+    shouldRetry: isTransientError,
+    signal: config.signal as AbortSignal | undefined,
+  });
+};
+
+// Reqres accepts writes but never stores them, so a refetch shows the original data
+export const reqresRepository: UserRepository = {
+  login: (email, password) =>
+    request({ method: 'post', url: '/login', data: { email, password } }, parseLoginResponse),
+
+  register: (email, password) =>
+    request({ method: 'post', url: '/register', data: { email, password } }, parseRegisterResponse),
+
+  listUsers: (page, signal) =>
+    request({ url: '/users', params: { page }, signal }, parseUsersResponse),
+
+  getUser: (id, signal) =>
+    request({ url: `/users/${id}`, signal }, parseUserResponse),
+
+  createUser: async (data) => {
+    const { id, createdAt, ...fields } = await request(
+      { method: 'post', url: '/users', data },
+      parseCreateUserResponse
+    );
+    // Reqres only echoes some fields back, so the rest come from what was sent
+    return { ...data, ...fields, id: Number(id), createdAt, avatar: data.avatar ?? '' };
+  },
+
+  // A cleared field (e.g. no manager any more) goes out as null; JSON would drop an undefined one
+  updateUser: async (id, data) => {
+    const body = Object.fromEntries(Object.entries(data).map(([field, value]) => [field, value ?? null]));
+    await http.put(`/users/${id}`, body);
+  },
+
+  deleteUser: async (id) => {
+    await http.delete(`/users/${id}`);
+  },
+};
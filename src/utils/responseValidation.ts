@@ -0,0 +1,113 @@
+import { ApiError } from './apiError';
+import { cleanProfile } from './userProfile';
+import type {
+  CreateUserResponse,
+  LoginResponse,
+  RegisterResponse,
+  SupportInfo,
+  User,
+  UserResponse,
+  UsersResponse,
+} from '../types';
+
+// Runtime checks for what the server sends back. TypeScript types vanish at
+// runtime, so a changed or broken API would otherwise fail deep inside the UI.
+
+type Parser<T> = (value: unknown, path: string) => T;
+
+const invalid = (path: string, expected: string) =>
+  new ApiError('validation', 'The server sent data the app does not understand', {
+    issues: [`${path}: expected ${expected}`],
+  });
+
+const record = (value: unknown, path: string) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalid(path, 'an object');
+  }
+  return value as Record<string, unknown>;
+};
+
+const string: Parser<string> = (value, path) => {
+  if (typeof value !== 'string') throw invalid(path, 'a string');
+  return value;
+};
+
+// Reqres sends ids as numbers, but created ids come back as strings
+const id: Parser<number> = (value, path) => {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isInteger(parsed)) throw invalid(path, 'an integer id');
+  return parsed;
+};
+
+const count: Parser<number> = (value, path) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw invalid(path, 'a non-negative integer');
+  }
+  return value;
+};
+
+const array = <T>(parse: Parser<T>): Parser<T[]> => (value, path) => {
+  if (!Array.isArray(value)) throw invalid(path, 'an array');
+  return value.map((item, index) => parse(item, `${path}[${index}]`));
+};
+
+export const parseUser: Parser<User> = (value, path) => {
+  const user = record(value, path);
+  return {
+    id: id(user.id, `${path}.id`),
+    email: string(user.email, `${path}.email`),
+    first_name: string(user.first_name, `${path}.first_name`),
+    last_name: string(user.last_name, `${path}.last_name`),
+    avatar: user.avatar === undefined || user.avatar === null ? '' : string(user.avatar, `${path}.avatar`),
+    // Optional extras some backends send; malformed ones are dropped rather than rejected
+    ...cleanProfile(user),
+  };
+};
+
+const parseSupport: Parser<SupportInfo> = (value, path) => {
+  const support = record(value, path);
+  return {
+    url: string(support.url, `${path}.url`),
+    text: string(support.text, `${path}.text`),
+  };
+};
+
+export const parseUsersResponse = (value: unknown): UsersResponse => {
+  const response = record(value, 'response');
+  return {
+    page: count(response.page, 'page'),
+    per_page: count(response.per_page, 'per_page'),
+    total: count(response.total, 'total'),
+    total_pages: count(response.total_pages, 'total_pages'),
+    data: array(parseUser)(response.data, 'data'),
+  };
+};
+
+export const parseUserResponse = (value: unknown): UserResponse => {
+  const response = record(value, 'response');
+  return {
+    data: parseUser(response.data, 'data'),
+    support: parseSupport(response.support, 'support'),
+  };
+};
+
+export const parseLoginResponse = (value: unknown): LoginResponse => {
+  const response = record(value, 'response');
+  return { token: string(response.token, 'token') };
+};
+
+export const parseRegisterResponse = (value: unknown): RegisterResponse => {
+  const response = record(value, 'response');
+  return { id: id(response.id, 'id'), token: string(response.token, 'token') };
+};
+
+export const parseCreateUserResponse = (value: unknown): CreateUserResponse => {
+  const response = record(value, 'response');
+  return {
+    id: String(id(response.id, 'id')),
+    createdAt: string(response.createdAt, 'createdAt'),
+    email: string(response.email, 'email'),
+    first_name: string(response.first_name, 'first_name'),
+    last_name: string(response.last_name, 'last_name'),
+  };
+};
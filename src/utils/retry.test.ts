@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CanceledError } from 'axios';
+import { ApiError } from './apiError';
+import type { ApiErrorKind } from './apiError';
+import { isTransientError, sleep, withRetry } from './retry';
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // No jitter: delays are exactly baseDelay * 2^attempt
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('backs off exponentially between attempts', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(new ApiError('network'))
+      .mockRejectedValueOnce(new ApiError('server', undefined, { status: 503 }))
+      .mockResolvedValue('ok');
+
+    const result = withRetry(task, { retries: 2, baseDelay: 100, shouldRetry: isTransientError });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const error = new ApiError('timeout');
+    const task = vi.fn().mockRejectedValue(error);
+
+    const result = withRetry(task, { retries: 2, baseDelay: 100, shouldRetry: isTransientError });
+    const assertion = expect(result).rejects.toBe(error);
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry errors the predicate rejects', async () => {
+    const error = new ApiError('validation', 'Missing password', { status: 400 });
+    const task = vi.fn().mockRejectedValue(error);
+
+    await expect(
+      withRetry(task, { retries: 2, baseDelay: 100, shouldRetry: isTransientError })
+    ).rejects.toBe(error);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting as soon as the request is aborted', async () => {
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(new ApiError('network'));
+
+    const result = withRetry(task, {
+      retries: 2,
+      baseDelay: 1000,
+      shouldRetry: isTransientError,
+      signal: controller.signal,
+    });
+    const assertion = expect(result).rejects.toBeInstanceOf(CanceledError);
+
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+    await assertion;
+
+    await vi.runAllTimersAsync();
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('sleep', () => {
+  it('rejects straight away when the signal has already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(sleep(1000, controller.signal)).rejects.toBeInstanceOf(CanceledError);
+  });
+});
+
+describe('isTransientError', () => {
+  it.each<[ApiErrorKind, boolean]>([
+    ['network', true],
+    ['timeout', true],
+    ['server', true],
+    ['validation', false],
+    ['unauthorized', false],
+    ['not-found', false],
+  ])('treats %s errors as retryable: %s', (kind, expected) => {
+    expect(isTransientError(new ApiError(kind))).toBe(expected);
+  });
+
+  it('does not retry cancellations or unknown errors', () => {
+    expect(isTransientError(new CanceledError())).toBe(false);
+    expect(isTransientError(new Error('boom'))).toBe(false);
+  });
+});
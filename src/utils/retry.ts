@@ -0,0 +1,49 @@
+import { CanceledError } from 'axios';
+import { isApiError } from './apiError';
+
+export interface RetryOptions {
+  retries: number;
+  // Delay before the first retry; doubles on each attempt after that
+  baseDelay: number;
+  shouldRetry: (error: unknown) => boolean;
+  signal?: AbortSignal;
+}
+
+// Resolves after `ms`, or rejects as a cancellation as soon as `signal` aborts
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CanceledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Only failures that another attempt could fix; a 4xx will fail the same way again
+export const isTransientError = (error: unknown) =>
+  isApiError(error, 'network') || isApiError(error, 'timeout') || isApiError(error, 'server');
+
+// Exponential backoff with jitter, so clients that failed together don't retry together
+export const backoff = (attempt: number, baseDelay: number) =>
+  baseDelay * 2 ** attempt * (0.75 + Math.random() * 0.5);
+
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= options.retries || options.signal?.aborted || !options.shouldRetry(error)) {
+        throw error;
+      }
+      await sleep(backoff(attempt, options.baseDelay), options.signal);
+    }
+  }
+};
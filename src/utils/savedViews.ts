@@ -0,0 +1,82 @@
+import type { FacetFilters, UserListParams } from '../hooks/useUserListParams';
+import { USER_FACETS } from './userProfile';
+import type { SortDirection } from '../types';
+
+export interface SavedView {
+  id: string;
+  name: string;
+  search: string;
+  letter: string;
+  domains: string[];
+  facets: FacetFilters;
+  sort: SortDirection;
+}
+
+export type ViewFilters = Omit<SavedView, 'id' | 'name'>;
+
+const VIEWS_KEY = 'savedViews';
+
+export const createViewId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const viewFiltersFromParams = (params: UserListParams): ViewFilters => ({
+  search: params.search,
+  letter: params.letter,
+  domains: params.domains,
+  facets: params.facets,
+  sort: params.sort,
+});
+
+const listKey = (values: string[]) => [...values].sort().join('\n');
+
+const toStrings = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+export const isSameView = (a: ViewFilters, b: ViewFilters) =>
+  a.search === b.search &&
+  a.letter === b.letter &&
+  a.sort === b.sort &&
+  listKey(a.domains) === listKey(b.domains) &&
+  USER_FACETS.every(facet => listKey(a.facets[facet.id]) === listKey(b.facets[facet.id]));
+
+// Validates one entry from storage or an imported file; returns null for anything unusable
+const toSavedView = (value: unknown): SavedView | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const view = value as Record<string, unknown>;
+  if (typeof view.name !== 'string' || !view.name.trim()) return null;
+
+  return {
+    id: typeof view.id === 'string' && view.id ? view.id : createViewId(),
+    name: view.name.trim(),
+    search: typeof view.search === 'string' ? view.search : '',
+    letter: typeof view.letter === 'string' && /^[A-Z]$/.test(view.letter) ? view.letter : '',
+    domains: toStrings(view.domains),
+    // Views saved before profile facets existed simply have none selected
+    facets: Object.fromEntries(
+      USER_FACETS.map(facet => [
+        facet.id,
+        toStrings((view.facets as Record<string, unknown> | undefined)?.[facet.id]),
+      ])
+    ) as FacetFilters,
+    sort: view.sort === 'desc' ? 'desc' : 'asc',
+  };
+};
+
+export const parseSavedViews = (json: string): SavedView[] => {
+  const parsed = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Expected a list of saved views');
+  }
+  return parsed.map(toSavedView).filter((view): view is SavedView => view !== null);
+};
+
+export const loadSavedViews = (): SavedView[] => {
+  try {
+    return parseSavedViews(localStorage.getItem(VIEWS_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const storeSavedViews = (views: SavedView[]) => {
+  localStorage.setItem(VIEWS_KEY, JSON.stringify(views));
+};
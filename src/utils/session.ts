@@ -0,0 +1,92 @@
+import { isRole, resolveRole } from './permissions';
+import type { Role } from './permissions';
+
+export interface Session {
+  token: string;
+  email: string;
+  // Fixed when the session starts; changed role assignments apply on next login
+  role: Role;
+  issuedAt: number;
+  lastActiveAt: number;
+}
+
+export type SessionEndReason = 'signed-out' | 'expired';
+
+type SessionListener = (session: Session | null, reason?: SessionEndReason) => void;
+
+export const SESSION_KEY = 'session';
+
+const minutes = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return (Number.isFinite(parsed) && parsed > 0 ? parsed : fallback) * 60 * 1000;
+};
+
+export const SESSION_IDLE_TIMEOUT = minutes(import.meta.env.VITE_SESSION_IDLE_TIMEOUT_MINUTES, 30);
+export const SESSION_MAX_AGE = minutes(import.meta.env.VITE_SESSION_MAX_AGE_MINUTES, 8 * 60);
+
+// Activity is only written back this often, so mouse moves don't hammer localStorage
+const ACTIVITY_WRITE_INTERVAL = 15 * 1000;
+
+const listeners = new Set<SessionListener>();
+
+const notify = (session: Session | null, reason?: SessionEndReason) => {
+  listeners.forEach(listener => listener(session, reason));
+};
+
+export const onSessionChange = (listener: SessionListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getSession = (): Session | null => {
+  const stored = localStorage.getItem(SESSION_KEY);
+  if (!stored) return null;
+
+  try {
+    const session = JSON.parse(stored) as Session;
+    if (!session.token) return null;
+    return isRole(session.role) ? session : { ...session, role: resolveRole(session.email ?? '') };
+  } catch {
+    return null;
+  }
+};
+
+export const isSessionExpired = (session: Session, now = Date.now()) =>
+  now - session.lastActiveAt > SESSION_IDLE_TIMEOUT || now - session.issuedAt > SESSION_MAX_AGE;
+
+export const startSession = (token: string, email: string) => {
+  const now = Date.now();
+  const session: Session = { token, email, role: resolveRole(email), issuedAt: now, lastActiveAt: now };
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  notify(session);
+  return session;
+};
+
+export const touchSession = () => {
+  const session = getSession();
+  const now = Date.now();
+  if (!session || isSessionExpired(session, now) || now - session.lastActiveAt < ACTIVITY_WRITE_INTERVAL) {
+    return;
+  }
+  localStorage.setItem(SESSION_KEY, JSON.stringify({ ...session, lastActiveAt: now }));
+};
+
+export const endSession = (reason: SessionEndReason = 'signed-out') => {
+  if (!getSession()) return;
+  localStorage.removeItem(SESSION_KEY);
+  notify(null, reason);
+};
+
+export const expireSession = () => endSession('expired');
+
+// Returns the stored session if it is still valid, ending it otherwise
+export const getActiveSession = () => {
+  const session = getSession();
+  if (session && isSessionExpired(session)) {
+    expireSession();
+    return null;
+  }
+  return session;
+};
@@ -0,0 +1,115 @@
+import type { EmploymentStatus, User, UserProfile } from '../types';
+
+export const PROFILE_FIELDS: (keyof UserProfile)[] = [
+  'department',
+  'job_title',
+  'phone',
+  'location',
+  'start_date',
+  'manager_id',
+  'status',
+];
+
+export const EMPLOYMENT_STATUSES: { value: EmploymentStatus; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'on-leave', label: 'On leave' },
+  { value: 'terminated', label: 'Terminated' },
+];
+
+export const statusLabel = (status: EmploymentStatus) =>
+  EMPLOYMENT_STATUSES.find(option => option.value === status)?.label ?? status;
+
+const isEmploymentStatus = (value: unknown): value is EmploymentStatus =>
+  EMPLOYMENT_STATUSES.some(option => option.value === value);
+
+// Drops blanks and anything of the wrong type, so the store only ever holds set values
+export const cleanProfile = (value: Partial<Record<keyof UserProfile, unknown>>): UserProfile => {
+  const profile: UserProfile = {};
+  (['department', 'job_title', 'phone', 'location'] as const).forEach((field) => {
+    const text = value[field];
+    if (typeof text === 'string' && text.trim()) profile[field] = text.trim();
+  });
+  if (typeof value.start_date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.start_date)) {
+    profile.start_date = value.start_date;
+  }
+  if (typeof value.manager_id === 'number' && Number.isInteger(value.manager_id)) {
+    profile.manager_id = value.manager_id;
+  }
+  if (isEmploymentStatus(value.status)) profile.status = value.status;
+  return profile;
+};
+
+export const pickProfile = (data: Partial<User>): Partial<UserProfile> => {
+  const picked: Partial<UserProfile> = {};
+  PROFILE_FIELDS.forEach((field) => {
+    if (field in data) (picked as Record<string, unknown>)[field] = data[field];
+  });
+  return picked;
+};
+
+// Local extension store: profile fields keyed by user id
+const PROFILES_KEY = 'userProfiles';
+
+const loadProfiles = (): Record<string, UserProfile> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '{}');
+    return typeof stored === 'object' && stored !== null && !Array.isArray(stored) ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+const storeProfiles = (profiles: Record<string, UserProfile>) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+// Fields present in `changes` replace the stored ones; blank values clear them
+export const saveProfile = (id: number, changes: Partial<UserProfile>) => {
+  if (Object.keys(changes).length === 0) return;
+  const profiles = loadProfiles();
+  const cleared = Object.fromEntries(Object.keys(changes).map(field => [field, undefined]));
+  const profile = cleanProfile({ ...profiles[id], ...cleared, ...changes });
+  if (Object.keys(profile).length > 0) {
+    profiles[id] = profile;
+  } else {
+    delete profiles[id];
+  }
+  storeProfiles(profiles);
+};
+
+export const removeProfile = (id: number) => {
+  const profiles = loadProfiles();
+  if (!(id in profiles)) return;
+  delete profiles[id];
+  storeProfiles(profiles);
+};
+
+// Fills in whatever the backend didn't send from the local store
+export const withProfiles = (users: User[]): User[] => {
+  const profiles = loadProfiles();
+  // Values the backend did send win over the local copy
+  return users.map(user => ({ ...cleanProfile(profiles[user.id] ?? {}), ...user }));
+};
+
+export const withProfile = (user: User) => withProfiles([user])[0];
+
+export type FacetId = 'department' | 'location' | 'status';
+
+export interface UserFacet {
+  id: FacetId;
+  label: string;
+  value: (user: User) => string | undefined;
+  format?: (value: string) => string;
+}
+
+// Filterable profile fields, shown next to the email domain filter
+export const USER_FACETS: UserFacet[] = [
+  { id: 'department', label: 'Department', value: user => user.department },
+  { id: 'location', label: 'Location', value: user => user.location },
+  {
+    id: 'status',
+    label: 'Status',
+    value: user => user.status,
+    format: value => statusLabel(value as EmploymentStatus),
+  },
+];
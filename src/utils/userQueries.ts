@@ -0,0 +1,103 @@
+import { getUser, getUsers } from './api';
+import {
+  fetchQuery,
+  getQueryData,
+  isQueryStale,
+  prefetchQuery,
+  removeQuery,
+  setQueryData,
+  updateQueries,
+} from './queryCache';
+import type { QueryKey } from './queryCache';
+import type { User, UserResponse, UsersResponse } from '../types';
+
+export const usersQueryKey = (page: number) => ['users', page] as const;
+
+export const allUsersQueryKey = ['users', 'all'] as const;
+
+export const userQueryKey = (id: number) => ['user', id] as const;
+
+export const usersPageFetcher = (page: number) => (signal: AbortSignal) => getUsers(page, signal);
+
+export const userFetcher = (id: number) => (signal: AbortSignal) => getUser(id, signal);
+
+// Loads every page and merges them into a single response. `page`, `per_page` and
+// `total_pages` keep the server's paging so callers can paginate the merged list
+// the same way; each page is also written to its own cache entry.
+export const allUsersFetcher = async (signal: AbortSignal): Promise<UsersResponse> => {
+  const firstPage = await getUsers(1, signal);
+  const remainingPages = await Promise.all(
+    Array.from({ length: firstPage.total_pages - 1 }, (_, i) => getUsers(i + 2, signal))
+  );
+  const pages = [firstPage, ...remainingPages];
+
+  pages.forEach(response => setQueryData<UsersResponse>(usersQueryKey(response.page), () => response));
+
+  return {
+    ...firstPage,
+    data: pages.flatMap(response => response.data),
+  };
+};
+
+// Resolves the whole directory, reusing the cached copy when it is fresh enough
+export const loadAllUsers = async (staleTime = 30000): Promise<User[]> => {
+  const cached = getQueryData<UsersResponse>(allUsersQueryKey);
+  if (cached && !isQueryStale(allUsersQueryKey, staleTime)) {
+    return cached.data;
+  }
+  const response = await fetchQuery(allUsersQueryKey, allUsersFetcher);
+  if (!response) {
+    throw new Error('Failed to load users');
+  }
+  return response.data;
+};
+
+export const prefetchUsersPage = (page: number) => {
+  prefetchQuery(usersQueryKey(page), usersPageFetcher(page));
+};
+
+export const addCachedUser = (page: number, user: User) => {
+  const prepend = (response: UsersResponse | undefined) =>
+    response && { ...response, total: response.total + 1, data: [user, ...response.data] };
+  setQueryData<UsersResponse>(usersQueryKey(page), prepend);
+  setQueryData<UsersResponse>(allUsersQueryKey, prepend);
+};
+
+export const updateCachedUser = (id: number, changes: Partial<User>) => {
+  updateQueries<UsersResponse>(['users'], (response) => ({
+    ...response,
+    data: response.data.map(user => (user.id === id ? { ...user, ...changes } : user)),
+  }));
+  updateQueries<UserResponse>(userQueryKey(id), (response) => ({
+    ...response,
+    data: { ...response.data, ...changes },
+  }));
+};
+
+// Returns a function that puts the user back where they were in every cached list
+export const removeCachedUser = (id: number) => {
+  const removed: { key: QueryKey; index: number; user: User }[] = [];
+  const detail = getQueryData<UserResponse>(userQueryKey(id));
+
+  updateQueries<UsersResponse>(['users'], (response, key) => {
+    const index = response.data.findIndex(user => user.id === id);
+    if (index === -1) return response;
+    removed.push({ key, index, user: response.data[index] });
+    return { ...response, total: response.total - 1, data: response.data.filter(user => user.id !== id) };
+  });
+  removeQuery(userQueryKey(id));
+
+  return () => {
+    removed.forEach(({ key, index, user }) => {
+      setQueryData<UsersResponse>(key, (response) => {
+        if (!response || response.data.some(existing => existing.id === id)) return response;
+        const data = [...response.data];
+        data.splice(Math.min(index, data.length), 0, user);
+        return { ...response, total: response.total + 1, data };
+      });
+    });
+    if (detail) {
+      setQueryData<UserResponse>(userQueryKey(id), () => detail);
+    }
+  };
+};
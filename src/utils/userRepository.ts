@@ -0,0 +1,28 @@
+import { reqresRepository } from './reqresRepository';
+import { mockRepository } from './mockRepository';
+import type {
+  LoginResponse,
+  RegisterResponse,
+  User,
+  UserFormValues,
+  UserResponse,
+  UsersResponse,
+} from '../types';
+
+// Everything the app needs from a backend. Adapters reject with an ApiError
+// (or an axios cancellation), so callers handle every backend alike.
+export interface UserRepository {
+  login: (email: string, password: string) => Promise<LoginResponse>;
+  register: (email: string, password: string) => Promise<RegisterResponse>;
+  listUsers: (page: number, signal?: AbortSignal) => Promise<UsersResponse>;
+  getUser: (id: number, signal?: AbortSignal) => Promise<UserResponse>;
+  createUser: (data: UserFormValues) => Promise<User>;
+  updateUser: (id: number, data: Partial<User>) => Promise<void>;
+  deleteUser: (id: number) => Promise<void>;
+}
+
+export type DataSource = 'reqres' | 'mock';
+
+export const DATA_SOURCE: DataSource = import.meta.env.VITE_DATA_SOURCE === 'mock' ? 'mock' : 'reqres';
+
+export const userRepository: UserRepository = DATA_SOURCE === 'mock' ? mockRepository : reqresRepository;
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { buildSearchIndex, parseSearchQuery, searchUsers } from './userSearch';
+import type { User } from '../types';
+
+const user = (id: number, first_name: string, last_name: string, extra: Partial<User> = {}): User => ({
+  id,
+  email: `${first_name}.${last_name}@reqres.in`.toLowerCase(),
+  first_name,
+  last_name,
+  avatar: '',
+  ...extra,
+});
+
+const users = [
+  user(1, 'George', 'Bluth', { department: 'Engineering' }),
+  user(2, 'Janet', 'Weaver', { department: 'Sales', job_title: 'Account Manager' }),
+  user(3, 'Emma', 'Wong', { department: 'Engineering', location: 'Ramos Arizpe' }),
+  user(6, 'Tracey', 'Ramos'),
+  user(11, 'George', 'Edwards', { email: 'george.edwards@example.com' }),
+];
+const index = buildSearchIndex(users);
+
+const matchingIds = (query: string) => {
+  const matches = searchUsers(index, query);
+  return matches && [...matches.keys()].sort((a, b) => a - b);
+};
+
+describe('searchUsers', () => {
+  it('forgives typos in longer words', () => {
+    expect(matchingIds('jnaet')).toEqual([2]);
+    expect(matchingIds('edwrads')).toEqual([11]);
+  });
+
+  it('limits scoped terms to their field', () => {
+    expect(matchingIds('george')).toEqual([1, 11]);
+    expect(matchingIds('last:george')).toEqual([]);
+    expect(matchingIds('dept:engineering')).toEqual([1, 3]);
+    expect(matchingIds('domain:example.com')).toEqual([11]);
+    expect(matchingIds('title:manager')).toEqual([2]);
+  });
+
+  it('matches quoted phrases exactly, across first and last name', () => {
+    expect(matchingIds('"george edwards"')).toEqual([11]);
+    expect(matchingIds('"gorge edwards"')).toEqual([]);
+  });
+
+  it('leaves out users matching a negated term', () => {
+    expect(matchingIds('george -bluth')).toEqual([11]);
+    expect(matchingIds('dept:engineering -dept:engineering')).toEqual([]);
+  });
+
+  it('ranks a name match above the same word in a less important field', () => {
+    const matches = searchUsers(index, 'ramos');
+    expect(matches && [...matches].sort(([, a], [, b]) => b.score - a.score).map(([id]) => id)).toEqual([6, 3]);
+  });
+
+  it('ranks an exact match above a typo', () => {
+    const matches = searchUsers(buildSearchIndex([user(1, 'Weaver', 'Smith'), user(2, 'Weever', 'Jones')]), 'weaver');
+    expect(matches?.get(1)?.score).toBeGreaterThan(matches?.get(2)?.score ?? Infinity);
+  });
+
+  it('splits the highlight of a phrase over first and last name', () => {
+    expect(searchUsers(index, '"janet weaver"')?.get(2)?.highlights).toEqual({
+      first_name: [[0, 5]],
+      last_name: [[0, 6]],
+    });
+    expect(searchUsers(index, '"et wea"')?.get(2)?.highlights).toEqual({
+      first_name: [[3, 5]],
+      last_name: [[0, 3]],
+    });
+  });
+
+  it('filters nothing while a term is still being typed', () => {
+    expect(searchUsers(index, '-')).toBeNull();
+    expect(searchUsers(index, 'email:')).toBeNull();
+    expect(searchUsers(index, '-dept:')).toBeNull();
+    expect(matchingIds('janet -')).toEqual([2]);
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('keeps unknown scopes as plain text', () => {
+    expect(parseSearchQuery('10:30')).toEqual([
+      expect.objectContaining({ text: '10:30', negate: false, phrase: false }),
+    ]);
+  });
+});
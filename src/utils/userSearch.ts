@@ -0,0 +1,217 @@
+import type { User } from '../types';
+
+// Fields the cards can highlight, with [start, end) offsets into the raw value
+export type HighlightField = 'first_name' | 'last_name' | 'email' | 'job_title' | 'department' | 'location';
+export type TextRange = [number, number];
+export type SearchHighlights = Partial<Record<HighlightField, TextRange[]>>;
+
+export interface SearchMatch {
+  score: number;
+  highlights: SearchHighlights;
+}
+
+// `name` is "first last", so phrases like "janet weaver" can match across both
+type IndexField = HighlightField | 'name';
+
+interface SearchTerm {
+  text: string;
+  fields: IndexField[];
+  negate: boolean;
+  // Quoted terms match exactly, without typo tolerance
+  phrase: boolean;
+  // `domain:` only looks at the part of the email after the @
+  domainOnly: boolean;
+}
+
+interface IndexedUser {
+  user: User;
+  texts: Record<IndexField, string>;
+}
+
+export type SearchIndex = IndexedUser[];
+
+// How much a match in each field counts towards the ranking
+const FIELD_WEIGHTS: Record<IndexField, number> = {
+  name: 1,
+  first_name: 1,
+  last_name: 1,
+  email: 0.8,
+  job_title: 0.6,
+  department: 0.6,
+  location: 0.5,
+};
+
+const DEFAULT_FIELDS: IndexField[] = ['name', 'email', 'job_title', 'department', 'location'];
+
+const SCOPES: Record<string, IndexField[]> = {
+  first: ['first_name'],
+  last: ['last_name'],
+  name: ['name'],
+  email: ['email'],
+  domain: ['email'],
+  title: ['job_title'],
+  job: ['job_title'],
+  dept: ['department'],
+  department: ['department'],
+  location: ['location'],
+};
+
+// Optional `-`, optional `scope:`, then a quoted phrase (closing quote optional) or a word
+const TERM_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+// Still being typed: a lone `-`, or a known `scope:` with nothing after it yet
+const isUnfinished = (token: string) => {
+  const scope = /^-?([a-z]+):$/i.exec(token)?.[1];
+  return token === '-' || (scope !== undefined && !!SCOPES[scope.toLowerCase()]);
+};
+
+export const parseSearchQuery = (query: string): SearchTerm[] => {
+  const terms: SearchTerm[] = [];
+  for (const [raw, minus, scope, phrase, word] of query.matchAll(TERM_PATTERN)) {
+    if (word !== undefined && isUnfinished(raw)) continue;
+    const fields = scope ? SCOPES[scope.toLowerCase()] : DEFAULT_FIELDS;
+    // An unknown scope is just part of the text, e.g. a time like 10:30
+    const text = (fields ? phrase ?? word : raw.replace(/^-/, '')).trim().toLowerCase();
+    if (!text) continue;
+    terms.push({
+      text,
+      fields: fields ?? DEFAULT_FIELDS,
+      negate: minus === '-',
+      phrase: phrase !== undefined,
+      domainOnly: scope?.toLowerCase() === 'domain',
+    });
+  }
+  return terms;
+};
+
+export const buildSearchIndex = (users: User[]): SearchIndex =>
+  users.map(user => ({
+    user,
+    texts: {
+      first_name: user.first_name.toLowerCase(),
+      last_name: user.last_name.toLowerCase(),
+      name: `${user.first_name} ${user.last_name}`.toLowerCase(),
+      email: user.email.toLowerCase(),
+      job_title: (user.job_title ?? '').toLowerCase(),
+      department: (user.department ?? '').toLowerCase(),
+      location: (user.location ?? '').toLowerCase(),
+    },
+  }));
+
+// Short words have to be typed exactly; longer ones allow one or two slips
+const maxTypos = (length: number) => (length < 4 ? 0 : length < 7 ? 1 : 2);
+
+// Optimal string alignment distance (Levenshtein plus adjacent swaps, so
+// "jnaet" is one edit from "janet"). Gives up once it exceeds `limit`.
+const editDistance = (a: string, b: string, limit: number) => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let twoBack: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, twoBack[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > limit) return limit + 1;
+    twoBack = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+interface TermMatch {
+  quality: number;
+  range: TextRange;
+}
+
+const isWordStart = (text: string, index: number) => index === 0 || !/[a-z0-9]/.test(text[index - 1]);
+
+// Exact substrings beat typos; a match at the start of a word beats one inside it
+const matchText = (text: string, term: SearchTerm, from: number): TermMatch | null => {
+  let best: TermMatch | null = null;
+
+  for (let index = text.indexOf(term.text, from); index !== -1; index = text.indexOf(term.text, index + 1)) {
+    const quality = from === 0 && text === term.text ? 1 : isWordStart(text, index) ? 0.9 : 0.7;
+    if (!best || quality > best.quality) best = { quality, range: [index, index + term.text.length] };
+    if (quality >= 0.9) break;
+  }
+  if (best || term.phrase || term.negate) return best;
+
+  const limit = maxTypos(term.text.length);
+  if (limit === 0) return null;
+
+  for (const word of text.slice(from).matchAll(/[a-z0-9]+/g)) {
+    const start = from + (word.index ?? 0);
+    // Also compare with the word's beginning, for words that are still being typed
+    const prefix = word[0].slice(0, term.text.length);
+    const whole = editDistance(term.text, word[0], limit);
+    const partial = editDistance(term.text, prefix, limit);
+    const distance = Math.min(whole, partial);
+    if (distance > limit) continue;
+
+    const quality = 0.6 - 0.1 * distance;
+    if (!best || quality > best.quality) {
+      best = { quality, range: [start, start + (whole <= partial ? word[0].length : prefix.length)] };
+    }
+  }
+  return best;
+};
+
+const addHighlight = (highlights: SearchHighlights, field: HighlightField, range: TextRange) => {
+  if (range[1] > range[0]) highlights[field] = [...(highlights[field] ?? []), range];
+};
+
+// Splits a range over "first last" back into the two name fields
+const highlightName = (highlights: SearchHighlights, user: User, [start, end]: TextRange) => {
+  const firstLength = user.first_name.length;
+  addHighlight(highlights, 'first_name', [start, Math.min(end, firstLength)]);
+  addHighlight(highlights, 'last_name', [Math.max(start, firstLength + 1) - firstLength - 1, end - firstLength - 1]);
+};
+
+/**
+ * Matches every user against a query such as `jnaet -bluth email:reqres.in "george edwards"`.
+ * Plain words are typo tolerant, `scope:` limits a term to one field, quotes
+ * match a phrase exactly and `-` excludes. Every positive term has to match.
+ * Returns null for an empty query, meaning nothing is filtered out.
+ */
+export const searchUsers = (index: SearchIndex, query: string): Map<number, SearchMatch> | null => {
+  const terms = parseSearchQuery(query);
+  if (terms.length === 0) return null;
+
+  const matches = new Map<number, SearchMatch>();
+  index.forEach(({ user, texts }) => {
+    const highlights: SearchHighlights = {};
+    let score = 0;
+
+    for (const term of terms) {
+      let best: { field: IndexField; weighted: number; range: TextRange } | null = null;
+      for (const field of term.fields) {
+        const from = term.domainOnly ? texts.email.indexOf('@') + 1 : 0;
+        const match = matchText(texts[field], term, from);
+        const weighted = match ? match.quality * FIELD_WEIGHTS[field] : 0;
+        if (match && (!best || weighted > best.weighted)) best = { field, weighted, range: match.range };
+      }
+
+      if (term.negate ? best : !best) return;
+      if (!best || term.negate) continue;
+
+      score += best.weighted;
+      if (best.field === 'name') {
+        highlightName(highlights, user, best.range);
+      } else {
+        addHighlight(highlights, best.field, best.range);
+      }
+    }
+
+    matches.set(user.id, { score, highlights });
+  });
+  return matches;
+};
@@ -0,0 +1,128 @@
+import { statusLabel } from './userProfile';
+import type { SortDirection, User } from '../types';
+
+export type ColumnId = 'id' | 'first_name' | 'last_name' | 'email' | 'domain' | 'job_title' | 'department' | 'status';
+
+export interface UserColumn {
+  id: ColumnId;
+  label: string;
+  value: (user: User) => string | number;
+  defaultWidth: number;
+}
+
+export const MIN_COLUMN_WIDTH = 60;
+
+export const USER_COLUMNS: UserColumn[] = [
+  { id: 'id', label: 'ID', value: user => user.id, defaultWidth: 80 },
+  { id: 'first_name', label: 'First name', value: user => user.first_name, defaultWidth: 160 },
+  { id: 'last_name', label: 'Last name', value: user => user.last_name, defaultWidth: 160 },
+  { id: 'email', label: 'Email', value: user => user.email, defaultWidth: 280 },
+  { id: 'domain', label: 'Domain', value: user => user.email.split('@')[1] ?? '', defaultWidth: 160 },
+  { id: 'job_title', label: 'Job title', value: user => user.job_title ?? '', defaultWidth: 180 },
+  { id: 'department', label: 'Department', value: user => user.department ?? '', defaultWidth: 160 },
+  { id: 'status', label: 'Status', value: user => (user.status ? statusLabel(user.status) : ''), defaultWidth: 120 },
+];
+
+const columnsById = new Map(USER_COLUMNS.map(column => [column.id, column]));
+
+export const getColumn = (id: ColumnId) => columnsById.get(id) as UserColumn;
+
+const isColumnId = (value: unknown): value is ColumnId =>
+  typeof value === 'string' && columnsById.has(value as ColumnId);
+
+export interface SortRule {
+  column: ColumnId;
+  direction: SortDirection;
+}
+
+export type UsersLayout = 'cards' | 'table';
+
+export interface TablePrefs {
+  layout: UsersLayout;
+  // Every column in display order, hidden ones included, so re-showing one puts it back where it was
+  order: ColumnId[];
+  hidden: ColumnId[];
+  widths: Partial<Record<ColumnId, number>>;
+  // Earlier rules win; later ones only break ties
+  sort: SortRule[];
+}
+
+export const DEFAULT_TABLE_PREFS: TablePrefs = {
+  layout: 'cards',
+  order: USER_COLUMNS.map(column => column.id),
+  hidden: [],
+  widths: {},
+  sort: [],
+};
+
+const collator = new Intl.Collator(undefined, { sensitivity: 'base', numeric: true });
+
+export const sortUsers = (users: User[], rules: SortRule[]) => {
+  if (rules.length === 0) return users;
+  return [...users].sort((a, b) => {
+    for (const { column, direction } of rules) {
+      const { value } = getColumn(column);
+      const valueA = value(a);
+      const valueB = value(b);
+      const result =
+        typeof valueA === 'number' && typeof valueB === 'number'
+          ? valueA - valueB
+          : collator.compare(String(valueA), String(valueB));
+      if (result !== 0) return direction === 'asc' ? result : -result;
+    }
+    return 0;
+  });
+};
+
+// Plain click sorts by that column alone; with `additive` it is added as a tiebreaker.
+// Clicking a sorted column flips it, and a third click on a descending one removes it.
+export const toggleSortRule = (rules: SortRule[], column: ColumnId, additive: boolean): SortRule[] => {
+  const existing = rules.find(rule => rule.column === column);
+  const next: SortRule | null = !existing
+    ? { column, direction: 'asc' }
+    : existing.direction === 'asc'
+    ? { column, direction: 'desc' }
+    : null;
+
+  if (!additive) return next ? [next] : [];
+  if (!existing) return [...rules, next as SortRule];
+  return next
+    ? rules.map(rule => (rule.column === column ? next : rule))
+    : rules.filter(rule => rule.column !== column);
+};
+
+const prefsKey = (email: string) => `tablePrefs:${email}`;
+
+// Falls back to defaults for anything missing or unknown, e.g. after a column is renamed
+export const loadTablePrefs = (email: string): TablePrefs => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(prefsKey(email)) ?? 'null') as Partial<TablePrefs> | null;
+    if (!stored || typeof stored !== 'object') return DEFAULT_TABLE_PREFS;
+
+    const order = Array.isArray(stored.order) ? stored.order.filter(isColumnId) : [];
+    const missing = DEFAULT_TABLE_PREFS.order.filter(id => !order.includes(id));
+    const widths: TablePrefs['widths'] = {};
+    Object.entries(stored.widths ?? {}).forEach(([id, width]) => {
+      if (isColumnId(id) && typeof width === 'number' && width >= MIN_COLUMN_WIDTH) widths[id] = width;
+    });
+
+    return {
+      layout: stored.layout === 'table' ? 'table' : 'cards',
+      order: [...new Set(order), ...missing],
+      hidden: Array.isArray(stored.hidden) ? stored.hidden.filter(isColumnId) : [],
+      widths,
+      sort: Array.isArray(stored.sort)
+        ? stored.sort.filter(
+            (rule): rule is SortRule =>
+              isColumnId(rule?.column) && (rule.direction === 'asc' || rule.direction === 'desc')
+          )
+        : [],
+    };
+  } catch {
+    return DEFAULT_TABLE_PREFS;
+  }
+};
+
+export const storeTablePrefs = (email: string, prefs: TablePrefs) => {
+  localStorage.setItem(prefsKey(email), JSON.stringify(prefs));
+};
@@ -0,0 +1,11 @@
+export const validateEmail = (email: string) => {
+  if (!email) return 'Email is required';
+  if (!/\S+@\S+\.\S+/.test(email)) return 'Please enter a valid email';
+  return '';
+};
+
+export const validatePassword = (password: string) => {
+  if (!password) return 'Password is required';
+  if (password.length < 4) return 'Password must be at least 4 characters';
+  return '';
+};
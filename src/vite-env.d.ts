@@ -1 +1,15 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SESSION_IDLE_TIMEOUT_MINUTES?: string;
+  readonly VITE_SESSION_MAX_AGE_MINUTES?: string;
+  readonly VITE_DEFAULT_ROLE?: string;
+  readonly VITE_DATA_SOURCE?: 'reqres' | 'mock';
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_API_TIMEOUT_MS?: string;
+  readonly VITE_API_RETRIES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}